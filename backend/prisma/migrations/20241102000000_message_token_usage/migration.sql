@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN "promptTokens" INTEGER,
+ADD COLUMN "completionTokens" INTEGER;
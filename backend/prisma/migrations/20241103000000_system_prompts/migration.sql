@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN "systemPrompt" TEXT;
+
+-- CreateTable
+CREATE TABLE "Preset" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "systemPrompt" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Preset_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Preset_name_key" ON "Preset"("name");
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN "activeLeafId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN "parentId" TEXT;
+
+-- Existing conversations are linear: each message's parent is the one before it
+UPDATE "Message" AS m
+SET "parentId" = ordered."previousId"
+FROM (
+    SELECT "id", LAG("id") OVER (PARTITION BY "conversationId" ORDER BY "createdAt", "id") AS "previousId"
+    FROM "Message"
+) AS ordered
+WHERE m."id" = ordered."id";
+
+-- The newest message of each conversation is its active leaf
+UPDATE "Conversation" AS c
+SET "activeLeafId" = (
+    SELECT "id" FROM "Message"
+    WHERE "conversationId" = c."id"
+    ORDER BY "createdAt" DESC, "id" DESC
+    LIMIT 1
+);
+
+-- CreateIndex
+CREATE INDEX "Message_parentId_idx" ON "Message"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "Message" ADD CONSTRAINT "Message_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Message"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable: kept in sync with "content" by PostgreSQL, never written by the app
+ALTER TABLE "Message" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', "content")) STORED;
+
+-- CreateIndex
+CREATE INDEX "Message_searchVector_idx" ON "Message" USING GIN ("searchVector");
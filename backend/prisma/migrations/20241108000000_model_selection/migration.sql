@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN "provider" TEXT,
+ADD COLUMN "model" TEXT,
+ADD COLUMN "temperature" DOUBLE PRECISION,
+ADD COLUMN "topP" DOUBLE PRECISION,
+ADD COLUMN "maxTokens" INTEGER;
+
+-- AlterTable: existing replies predate model tracking and stay null
+ALTER TABLE "Message" ADD COLUMN "provider" TEXT,
+ADD COLUMN "model" TEXT;
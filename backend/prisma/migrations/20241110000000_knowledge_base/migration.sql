@@ -0,0 +1,42 @@
+-- pgvector ships with the pgvector/pgvector Postgres images
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN "citations" JSONB;
+
+-- CreateTable
+CREATE TABLE "KnowledgeDocument" (
+    "id" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "embeddingModel" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "KnowledgeDocument_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable: no dimension on "embedding" so any embedding model fits. That
+-- rules out an HNSW/IVFFlat index; searches scan one user's chunks exactly.
+CREATE TABLE "KnowledgeChunk" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "ordinal" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "embedding" vector NOT NULL,
+
+    CONSTRAINT "KnowledgeChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "KnowledgeDocument_ownerId_createdAt_idx" ON "KnowledgeDocument"("ownerId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "KnowledgeChunk_documentId_ordinal_key" ON "KnowledgeChunk"("documentId", "ordinal");
+
+-- AddForeignKey
+ALTER TABLE "KnowledgeDocument" ADD CONSTRAINT "KnowledgeDocument_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "KnowledgeChunk" ADD CONSTRAINT "KnowledgeChunk_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "KnowledgeDocument"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "GenerationJob" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "userMessageId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "settings" JSONB,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "replyId" TEXT,
+    "error" JSONB,
+    "correlationId" TEXT,
+    "heartbeatAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GenerationJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GenerationJob_status_createdAt_idx" ON "GenerationJob"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "GenerationJob_conversationId_status_idx" ON "GenerationJob"("conversationId", "status");
+
+-- AddForeignKey
+ALTER TABLE "GenerationJob" ADD CONSTRAINT "GenerationJob_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GenerationJob" ADD CONSTRAINT "GenerationJob_userMessageId_fkey" FOREIGN KEY ("userMessageId") REFERENCES "Message"("id") ON DELETE CASCADE ON UPDATE CASCADE;
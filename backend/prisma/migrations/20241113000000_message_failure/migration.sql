@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN "failureReason" TEXT;
+
+-- User messages left without a reply by a failed generation, other than those
+-- a job is still working on
+UPDATE "Message" AS m
+SET "status" = 'failed', "failureReason" = 'No reply was stored'
+WHERE m."role" = 'user'
+  AND m."status" = 'complete'
+  AND NOT EXISTS (
+    SELECT 1 FROM "Message" AS reply
+    WHERE reply."parentId" = m."id" AND reply."role" = 'assistant'
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM "GenerationJob" AS job
+    WHERE job."userMessageId" = m."id" AND job."status" IN ('queued', 'running')
+  );
+
+-- Replies being generated now are pending
+UPDATE "Message" AS m
+SET "status" = 'pending'
+WHERE m."role" = 'user'
+  AND m."status" = 'complete'
+  AND EXISTS (
+    SELECT 1 FROM "GenerationJob" AS job
+    WHERE job."userMessageId" = m."id" AND job."status" IN ('queued', 'running')
+  );
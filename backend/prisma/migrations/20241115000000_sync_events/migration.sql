@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "SyncEvent" (
+    "seq" SERIAL NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SyncEvent_pkey" PRIMARY KEY ("seq")
+);
+
+-- CreateIndex
+CREATE INDEX "SyncEvent_ownerId_seq_idx" ON "SyncEvent"("ownerId", "seq");
+
+-- CreateIndex
+CREATE INDEX "SyncEvent_createdAt_idx" ON "SyncEvent"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "SyncEvent" ADD CONSTRAINT "SyncEvent_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
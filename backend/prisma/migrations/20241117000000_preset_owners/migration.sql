@@ -0,0 +1,13 @@
+-- Existing presets have no owner and become shared, read-only presets
+
+-- DropIndex
+DROP INDEX "Preset_name_key";
+
+-- AlterTable
+ALTER TABLE "Preset" ADD COLUMN "ownerId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Preset_ownerId_name_key" ON "Preset"("ownerId", "name");
+
+-- AddForeignKey
+ALTER TABLE "Preset" ADD CONSTRAINT "Preset_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -1,45 +1,140 @@
+// Must stay first: instruments http, express and Prisma before they load
+import { shutdownTracing } from './tracing';
 import express from 'express';
 import cors from 'cors';
+import cookieParser from 'cookie-parser';
 import { config } from './utils/config';
 import { logger } from './utils/logger';
 import { correlationIdMiddleware } from './middleware/correlationId';
+import { httpMetricsMiddleware } from './middleware/metrics';
+import { createAuthMiddleware } from './middleware/auth';
+import { createGenerationLimit } from './middleware/rateLimit';
+import { createIdempotency } from './middleware/idempotency';
 import { errorHandler } from './middleware/errorHandler';
-import { createLlmAdapter } from './services/llm';
+import { MeteredLlmAdapter, createLlmAdapter } from './services/llm';
+import { AuthService } from './services/authService';
+import { ContextBuilder } from './services/contextBuilder';
 import { ConversationService } from './services/conversationService';
+import { TitleGenerator } from './services/titleGenerator';
+import { PresetService } from './services/presetService';
+import { SearchService } from './services/searchService';
+import { RateLimiter } from './services/rateLimiter';
+import { QuotaService } from './services/quotaService';
+import { AttachmentService } from './services/attachmentService';
+import { KnowledgeService } from './services/knowledgeService';
+import { ToolRegistry, createBuiltinTools } from './services/tools';
+import { GenerationJobService } from './services/generationJobService';
+import { IdempotencyService } from './services/idempotencyService';
+import { SyncService } from './services/syncService';
+import { createAuthRouter } from './routes/auth';
 import { createConversationsRouter } from './routes/conversations';
-import healthRouter from './routes/health';
+import { createPresetsRouter } from './routes/presets';
+import { createSearchRouter } from './routes/search';
+import { createModelsRouter } from './routes/models';
+import { createKnowledgeRouter } from './routes/knowledge';
+import { createJobsRouter } from './routes/jobs';
+import { attachSyncSocket } from './routes/sync';
+import { createHealthRouter } from './routes/health';
+import metricsRouter from './routes/metrics';
 
 const app = express();
 
 // Middleware
-app.use(cors());
-app.use(express.json());
+// Sessions are cookies, so only the frontend's origin may send credentialed requests
+app.use(cors({ origin: config.appOrigin, credentials: true }));
+// Raised from the 100kb default so conversation imports fit
+app.use(express.json({ limit: '5mb' }));
+app.use(cookieParser());
 app.use(correlationIdMiddleware);
-
-// Health check routes
-app.use(healthRouter);
+app.use(httpMetricsMiddleware);
 
 // Initialize LLM adapter
 const llmAdapter = createLlmAdapter(config.llm);
-logger.info('LLM adapter initialized', { provider: config.llm.provider });
+logger.info('LLM adapter initialized', {
+  provider: config.llm.provider,
+  fallbackProviders: config.llm.fallbackProviders,
+});
+
+// Every call made for a user is charged to their quota
+const quotaService = new QuotaService(config.quota);
+const meteredLlmAdapter = new MeteredLlmAdapter(llmAdapter, quotaService);
+
+// Health check and metrics routes
+app.use(createHealthRouter(() => llmAdapter.health()));
+app.use(metricsRouter);
+
+// Initialize auth
+if (!process.env.JWT_SECRET) {
+  logger.warn('JWT_SECRET is not set; using an insecure development secret');
+}
+const authService = new AuthService(config.auth);
+const requireAuth = createAuthMiddleware(authService);
 
 // Initialize services
-const conversationService = new ConversationService(llmAdapter);
+const contextBuilder = new ContextBuilder(meteredLlmAdapter, config.context);
+const titleGenerator = new TitleGenerator(meteredLlmAdapter, config.title);
+const knowledgeService = new KnowledgeService(meteredLlmAdapter, config.knowledge);
+const searchService = new SearchService();
+const toolRegistry = new ToolRegistry(createBuiltinTools({ searchService }), config.tools);
+const syncService = new SyncService(config.sync);
+const conversationService = new ConversationService(
+  meteredLlmAdapter,
+  contextBuilder,
+  titleGenerator,
+  knowledgeService,
+  toolRegistry,
+  syncService
+);
+// Job slots per user match the in-flight cap of streamed replies
+const generationJobService = new GenerationJobService(conversationService, {
+  ...config.jobs,
+  maxActivePerUser: config.rateLimit.maxConcurrent,
+});
+const presetService = new PresetService();
+const attachmentService = new AttachmentService(config.attachments);
+const rateLimiter = new RateLimiter(config.rateLimit);
+const generationLimit = createGenerationLimit(rateLimiter, quotaService);
+const jobLimit = createGenerationLimit(rateLimiter, quotaService, { inFlight: false });
+const idempotency = createIdempotency(new IdempotencyService());
 
 // API routes
-app.use('/api/conversations', createConversationsRouter(conversationService));
+app.use('/api/auth', createAuthRouter(authService, requireAuth));
+app.use(
+  '/api/conversations',
+  requireAuth,
+  createConversationsRouter(
+    conversationService,
+    generationLimit,
+    jobLimit,
+    attachmentService,
+    generationJobService,
+    idempotency
+  )
+);
+app.use('/api/jobs', requireAuth, createJobsRouter(generationJobService));
+app.use('/api/presets', requireAuth, createPresetsRouter(presetService));
+app.use('/api/search', requireAuth, createSearchRouter(searchService));
+app.use('/api/models', requireAuth, createModelsRouter(llmAdapter));
+app.use('/api/knowledge', requireAuth, createKnowledgeRouter(knowledgeService));
 
 // Error handler (must be last)
 app.use(errorHandler);
 
 // Start server
-app.listen(config.port, () => {
+const server = app.listen(config.port, () => {
   logger.info(`Backend server listening on port ${config.port}`);
   logger.info(`LLM Provider: ${config.llm.provider}`);
+  generationJobService.start();
+  syncService.start();
 });
+// Live updates for the user's other tabs and devices
+attachSyncSocket(server, authService, syncService, config.appOrigin);
 
 // Graceful shutdown
-process.on('SIGTERM', () => {
+process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully');
+  await generationJobService.stop().catch(() => undefined);
+  syncService.stop();
+  await shutdownTracing().catch(() => undefined);
   process.exit(0);
 });
@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthService } from '../services/authService';
+import { UnauthorizedError } from '../utils/errors';
+import { setRequestUser } from '../utils/requestContext';
+
+export const SESSION_COOKIE = 'session';
+
+/** Rejects requests without a valid session cookie; sets `req.userId` otherwise. */
+export function createAuthMiddleware(authService: AuthService) {
+  return function requireAuth(req: Request, res: Response, next: NextFunction) {
+    const token = req.cookies?.[SESSION_COOKIE];
+    const userId = token ? authService.verifyToken(token) : null;
+
+    if (!userId) {
+      return next(new UnauthorizedError());
+    }
+
+    req.userId = userId;
+    setRequestUser(userId);
+    next();
+  };
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set by the auth middleware on authenticated routes. */
+      userId: string;
+    }
+  }
+}
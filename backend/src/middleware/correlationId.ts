@@ -1,11 +1,17 @@
 import { Request, Response, NextFunction } from 'express';
+import { trace } from '@opentelemetry/api';
 import { generateCorrelationId } from '../utils/logger';
+import { runWithRequestContext } from '../utils/requestContext';
 
 export function correlationIdMiddleware(req: Request, res: Response, next: NextFunction) {
   const correlationId = req.headers['x-correlation-id'] as string || generateCorrelationId();
   req.correlationId = correlationId;
   res.setHeader('X-Correlation-ID', correlationId);
-  next();
+  trace.getActiveSpan()?.setAttribute('correlation.id', correlationId);
+
+  // The rest of the chain runs inside the request context so log lines and
+  // outgoing LLM calls pick up the id without it being passed around
+  runWithRequestContext({ correlationId }, next);
 }
 
 declare global {
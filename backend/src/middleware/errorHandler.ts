@@ -1,37 +1,97 @@
 import { Request, Response, NextFunction } from 'express';
+import { Prisma } from '@prisma/client';
 import { ZodError } from 'zod';
+import { MulterError } from 'multer';
+import { AppError, ConflictError, ErrorCode, NotFoundError, ValidationError } from '../utils/errors';
 import { logger } from '../utils/logger';
 
-export function errorHandler(err: any, req: Request, res: Response, next: NextFunction) {
-  logger.error('Error occurred', {
-    correlationId: req.correlationId,
-    error: err.message,
-    stack: err.stack,
-  });
+/**
+ * JSON body of every error response (and of the SSE `error` event):
+ * `{ error, code, retryAfterMs?, details?, correlationId }`.
+ */
+export interface ErrorEnvelope {
+  error: string;
+  code: ErrorCode;
+  retryAfterMs?: number;
+  details?: unknown;
+  correlationId: string;
+}
+
+/** Maps known library errors onto the domain hierarchy. */
+function toAppError(err: any): AppError | null {
+  if (err instanceof AppError) {
+    return err;
+  }
 
   if (err instanceof ZodError) {
-    return res.status(400).json({
-      error: 'Validation error',
-      details: err.errors,
-    });
+    return new ValidationError('Validation error', err.errors);
+  }
+
+  if (err instanceof Prisma.PrismaClientKnownRequestError) {
+    // Record to update/delete does not exist
+    if (err.code === 'P2025') return new NotFoundError();
+    // Unique constraint violation
+    if (err.code === 'P2002') return new ConflictError('Already exists');
   }
 
-  if (err.name === 'AbortError' || err.message?.includes('timeout')) {
-    return res.status(504).json({
-      error: 'Upstream error/timeout',
-      retryAfterMs: 1000,
-    });
+  // Attachment uploads
+  if (err instanceof MulterError) {
+    if (err.code === 'LIMIT_FILE_SIZE') {
+      return new AppError('File too large', 413, 'VALIDATION_ERROR');
+    }
+    return new ValidationError(err.message);
   }
 
-  if (err.message?.includes('500')) {
-    return res.status(502).json({
-      error: 'Upstream error/timeout',
-      retryAfterMs: 1000,
-    });
+  // Malformed JSON body from express.json()
+  if (err.type === 'entity.parse.failed') {
+    return new ValidationError('Malformed JSON body');
   }
+  if (err.type === 'entity.too.large') {
+    return new AppError('Request body too large', 413, 'VALIDATION_ERROR');
+  }
+
+  return null;
+}
 
-  res.status(500).json({
-    error: 'Internal server error',
+export function toErrorResponse(
+  err: any,
+  correlationId: string
+): { status: number; body: ErrorEnvelope } {
+  const appError = toAppError(err);
+
+  if (!appError) {
+    return {
+      status: 500,
+      body: { error: 'Internal server error', code: 'INTERNAL_ERROR', correlationId },
+    };
+  }
+
+  return {
+    status: appError.status,
+    body: {
+      error: appError.message,
+      code: appError.code,
+      retryAfterMs: appError.retryAfterMs,
+      details: appError.details,
+      correlationId,
+    },
+  };
+}
+
+export function errorHandler(err: any, req: Request, res: Response, next: NextFunction) {
+  const { status, body } = toErrorResponse(err, req.correlationId);
+
+  // Client errors are expected traffic; only server-side failures get a stack
+  logger.log(status >= 500 ? 'error' : 'warn', 'Error occurred', {
     correlationId: req.correlationId,
+    code: body.code,
+    error: err.message,
+    stack: status >= 500 ? err.stack : undefined,
   });
+
+  if (status === 429 && body.retryAfterMs !== undefined) {
+    res.setHeader('Retry-After', Math.ceil(body.retryAfterMs / 1000).toString());
+  }
+
+  res.status(status).json(body);
 }
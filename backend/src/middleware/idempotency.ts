@@ -0,0 +1,74 @@
+import { createHash } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { IdempotencyService } from '../services/idempotencyService';
+import { ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+// Clients send UUIDs; anything much longer is not a key
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Honours an `Idempotency-Key` header: a repeat of a request that succeeded
+ * gets the recorded response (with `Idempotent-Replayed: true`) without
+ * running again, and one sent while the first is still running gets `409`.
+ * A key reused for a different request gets `422`.
+ * Error responses are not recorded, so the same key can be retried after
+ * them. Requests without the header run as usual.
+ *
+ * Goes before `generationLimit`, so replays don't count against the limits.
+ */
+export function createIdempotency(idempotencyService: IdempotencyService) {
+  return async function idempotency(req: Request, res: Response, next: NextFunction) {
+    const key = req.get('Idempotency-Key');
+    if (key === undefined) {
+      return next();
+    }
+    if (!key || key.length > MAX_KEY_LENGTH) {
+      return next(new ValidationError(`Idempotency-Key must be 1 to ${MAX_KEY_LENGTH} characters`));
+    }
+
+    try {
+      const stored = await idempotencyService.begin(req.userId, key, fingerprint(req));
+      if (stored) {
+        if (stored.location) res.location(stored.location);
+        res.setHeader('Idempotent-Replayed', 'true');
+        return res.status(stored.status).json(stored.body);
+      }
+    } catch (error) {
+      return next(error);
+    }
+
+    // Record the response before sending it, so a repeat can't find the key pending
+    const send = res.json.bind(res);
+    res.json = ((body: unknown) => {
+      const status = res.statusCode;
+      const recorded =
+        status >= 200 && status < 300
+          ? idempotencyService.complete(req.userId, key, {
+              status,
+              location: (res.getHeader('Location') as string | undefined) ?? null,
+              body,
+            })
+          : idempotencyService.release(req.userId, key);
+
+      recorded
+        .catch((error) => {
+          logger.error('Failed to record idempotency key', {
+            correlationId: req.correlationId,
+            error: error.message,
+          });
+        })
+        .finally(() => send(body));
+      return res;
+    }) as Response['json'];
+
+    next();
+  };
+}
+
+/** Identifies the request a key was first used for. */
+function fingerprint(req: Request): string {
+  return createHash('sha256')
+    .update(`${req.method} ${req.originalUrl}\n${JSON.stringify(req.body ?? null)}`)
+    .digest('hex');
+}
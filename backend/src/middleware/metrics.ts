@@ -0,0 +1,36 @@
+import { Request, Response, NextFunction } from 'express';
+import { httpRequestDuration } from '../utils/metrics';
+
+/**
+ * Times every request. The `route` label is the matched route pattern
+ * (`/api/conversations/:id`), never the raw URL, so ids don't create new series.
+ */
+export function httpMetricsMiddleware(req: Request, res: Response, next: NextFunction) {
+  const end = httpRequestDuration.startTimer({ method: req.method });
+
+  res.on('finish', () => {
+    end({ route: matchedRoute(req) ?? 'unmatched', status: res.statusCode.toString() });
+  });
+
+  next();
+}
+
+function matchedRoute(req: Request): string | undefined {
+  const path: string | undefined = req.route?.path;
+  if (typeof path !== 'string') return undefined;
+
+  return (req.baseUrl || mountPath(req.originalUrl, path)) + path;
+}
+
+/**
+ * Express resets `req.baseUrl` when an error leaves a sub-router, so for
+ * error responses the mount path is taken from the URL instead: what's left
+ * after the route's own segments. Routers are only mounted on fixed paths, so
+ * it holds no ids.
+ */
+function mountPath(url: string, routePath: string): string {
+  const routeSegments = routePath.split('/').filter(Boolean).length;
+  const urlSegments = url.split('?')[0].split('/').filter(Boolean);
+  const mount = urlSegments.slice(0, urlSegments.length - routeSegments);
+  return mount.length ? `/${mount.join('/')}` : '';
+}
@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction } from 'express';
+import { RateLimiter } from '../services/rateLimiter';
+import { QuotaService } from '../services/quotaService';
+import { RateLimitedError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+/**
+ * Guards routes that start an LLM generation. Over-limit requests fail with
+ * `RateLimitedError`, which `errorHandler` turns into `429` with `Retry-After`.
+ * The concurrency slot is held until the response ends, including when the
+ * client disconnects mid-stream. Routes that queue a background job pass
+ * `inFlight: false`: the job outlives the response, so `GenerationJobService`
+ * caps queued and running jobs itself.
+ */
+export function createGenerationLimit(
+  rateLimiter: RateLimiter,
+  quotaService: QuotaService,
+  { inFlight = true }: { inFlight?: boolean } = {}
+) {
+  return async function generationLimit(req: Request, res: Response, next: NextFunction) {
+    try {
+      const quota = await quotaService.check(req.userId);
+      if (!quota.allowed) {
+        return next(rejected(req, quota.reason, quota.retryAfterMs));
+      }
+
+      const slot = inFlight ? rateLimiter.acquire(req.userId) : rateLimiter.admit(req.userId);
+      if (!slot.allowed) {
+        return next(rejected(req, slot.reason, slot.retryAfterMs));
+      }
+
+      res.on('close', slot.release);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+function rejected(req: Request, reason: string, retryAfterMs: number) {
+  logger.warn('Generation rejected by limiter', {
+    correlationId: req.correlationId,
+    userId: req.userId,
+    reason,
+    retryAfterMs,
+  });
+
+  return new RateLimitedError(reason, retryAfterMs);
+}
@@ -0,0 +1,82 @@
+import { RequestHandler, Router } from 'express';
+import { z } from 'zod';
+import { AuthService } from '../services/authService';
+import { SESSION_COOKIE } from '../middleware/auth';
+import { ConflictError, ForbiddenError, UnauthorizedError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+const registerSchema = z.object({
+  email: z.string().trim().email().max(254),
+  password: z.string().min(8).max(200),
+});
+
+const loginSchema = z.object({
+  email: z.string().trim().min(1).max(254),
+  password: z.string().min(1).max(200),
+});
+
+export function createAuthRouter(authService: AuthService, requireAuth: RequestHandler) {
+  // Create an account and start a session
+  router.post('/register', async (req, res, next) => {
+    try {
+      const { email, password } = registerSchema.parse(req.body);
+      logger.info('Registering user', { correlationId: req.correlationId });
+
+      if (!authService.registrationOpen) {
+        throw new ForbiddenError('Registration is disabled');
+      }
+
+      const session = await authService.register(email, password);
+      if (!session) {
+        throw new ConflictError('Email is already registered');
+      }
+
+      res.cookie(SESSION_COOKIE, session.token, authService.cookieOptions);
+      res.status(201).json(session.user);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Start a session
+  router.post('/login', async (req, res, next) => {
+    try {
+      const { email, password } = loginSchema.parse(req.body);
+      logger.info('Logging in', { correlationId: req.correlationId });
+
+      const session = await authService.login(email, password);
+      if (!session) {
+        throw new UnauthorizedError('Invalid email or password');
+      }
+
+      res.cookie(SESSION_COOKIE, session.token, authService.cookieOptions);
+      res.json(session.user);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // End the session
+  router.post('/logout', (req, res) => {
+    const { maxAge, ...cookieOptions } = authService.cookieOptions;
+    res.clearCookie(SESSION_COOKIE, cookieOptions);
+    res.status(204).send();
+  });
+
+  // The signed-in user
+  router.get('/me', requireAuth, async (req, res, next) => {
+    try {
+      const user = await authService.getUser(req.userId);
+      if (!user) {
+        throw new UnauthorizedError();
+      }
+      res.json(user);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -1,25 +1,152 @@
-import { Router } from 'express';
+import { RequestHandler, Response, Router } from 'express';
 import { z } from 'zod';
+import multer from 'multer';
 import { ConversationService } from '../services/conversationService';
+import { AttachmentService } from '../services/attachmentService';
+import { GenerationJobService } from '../services/generationJobService';
+import { LLM_PROVIDERS } from '../services/llm';
+import { EXPORT_FORMATS, formatExport } from '../services/conversationExport';
+import { toErrorResponse } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
 
 const router = Router();
 
-const sendMessageSchema = z.object({
+const generationSettingsSchema = z.object({
+  provider: z.enum(LLM_PROVIDERS),
+  model: z.string().trim().min(1).max(200),
+  temperature: z.number().min(0).max(2),
+  topP: z.number().gt(0).max(1),
+  maxTokens: z.number().int().positive().max(32768),
+});
+
+// A model name only means something together with its provider
+const modelNeedsProvider = (data: { provider?: string | null; model?: string | null }) =>
+  data.model == null || data.provider != null;
+const modelNeedsProviderError = { message: 'model requires provider', path: ['model'] };
+
+const sendMessageSchema = z
+  .object({
+    content: z.string().min(1),
+    attachmentIds: z.array(z.string().min(1)).max(10).optional(),
+    ...generationSettingsSchema.partial().shape,
+  })
+  .refine(modelNeedsProvider, modelNeedsProviderError);
+
+const editMessageSchema = z.object({
+  content: z.string().min(1),
+});
+
+const selectBranchSchema = z.object({
+  messageId: z.string().min(1),
+});
+
+// null resets a generation setting to the server default
+const updateConversationSchema = z
+  .object({
+    title: z.string().trim().min(1).max(200).optional(),
+    systemPrompt: z.string().max(20000).nullable().optional(),
+    provider: generationSettingsSchema.shape.provider.nullable().optional(),
+    model: generationSettingsSchema.shape.model.nullable().optional(),
+    temperature: generationSettingsSchema.shape.temperature.nullable().optional(),
+    topP: generationSettingsSchema.shape.topP.nullable().optional(),
+    maxTokens: generationSettingsSchema.shape.maxTokens.nullable().optional(),
+  })
+  .refine(modelNeedsProvider, modelNeedsProviderError);
+
+const exportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default('md'),
+});
+
+const importMessageSchema = z.object({
+  role: z.enum(['system', 'user', 'assistant']),
   content: z.string().min(1),
+  status: z.enum(['complete', 'failed', 'cancelled']).optional(),
+  failureReason: z.string().nullable().optional(),
+  usage: z
+    .object({
+      promptTokens: z.number().int().nonnegative().nullable(),
+      completionTokens: z.number().int().nonnegative().nullable(),
+    })
+    .nullable()
+    .optional(),
+  createdAt: z.string().datetime().optional(),
+});
+
+// Accepts our JSON export as well as a single fine-tuning record ({ messages })
+const importConversationSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  systemPrompt: z.string().max(20000).nullable().optional(),
+  messages: z.array(importMessageSchema).min(1).max(2000),
 });
 
-export function createConversationsRouter(conversationService: ConversationService) {
+/**
+ * Returns a controller that aborts when the client disconnects before the
+ * response is finished, so in-flight LLM calls stop with it.
+ */
+function abortOnClose(res: Response): AbortController {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+  return controller;
+}
+
+/**
+ * `generationLimit` guards the routes that call the LLM (rate limit, in-flight
+ * cap and daily quota); `jobLimit` is its variant for the routes that queue a
+ * job, where `GenerationJobService` caps the jobs in flight. `idempotency`
+ * makes sending safe to retry with an `Idempotency-Key` header.
+ */
+export function createConversationsRouter(
+  conversationService: ConversationService,
+  generationLimit: RequestHandler,
+  jobLimit: RequestHandler,
+  attachmentService: AttachmentService,
+  generationJobService: GenerationJobService,
+  idempotency: RequestHandler
+) {
+  // Files are held in memory: they are small and end up in the database anyway
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: attachmentService.config.maxBytes,
+      files: attachmentService.config.maxFiles,
+    },
+  });
+
   // Create a conversation
   router.post('/', async (req, res, next) => {
     try {
       logger.info('Creating new conversation', { correlationId: req.correlationId });
-      const conversation = await conversationService.createConversation();
+      const conversation = await conversationService.createConversation(req.userId);
+
+      res.status(201).json({
+        id: conversation.id,
+        title: conversation.title,
+        createdAt: conversation.createdAt.toISOString(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
 
+  // Import a conversation from a JSON export or a fine-tuning record
+  router.post('/import', async (req, res, next) => {
+    try {
+      const validatedBody = importConversationSchema.parse(req.body);
+      logger.info('Importing conversation', {
+        correlationId: req.correlationId,
+        messages: validatedBody.messages.length
+      });
+
+      const conversation = await conversationService.importConversation(req.userId, validatedBody);
       res.status(201).json({
         id: conversation.id,
         title: conversation.title,
         createdAt: conversation.createdAt.toISOString(),
+        lastMessageAt: conversation.lastMessageAt?.toISOString() ?? null,
       });
     } catch (error) {
       next(error);
@@ -30,7 +157,7 @@ export function createConversationsRouter(conversationService: ConversationServi
   router.get('/', async (req, res, next) => {
     try {
       logger.info('Listing conversations', { correlationId: req.correlationId });
-      const conversations = await conversationService.listConversations();
+      const conversations = await conversationService.listConversations(req.userId);
       res.json(conversations);
     } catch (error) {
       next(error);
@@ -51,7 +178,39 @@ export function createConversationsRouter(conversationService: ConversationServi
         limit
       });
 
-      const conversation = await conversationService.getConversation(id, messagesCursor, limit);
+      const conversation = await conversationService.getConversation(req.userId, id, messagesCursor, limit);
+      res.json(conversation);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Download the active branch as Markdown, JSON or JSONL
+  router.get('/:id/export', async (req, res, next) => {
+    try {
+      const { id } = req.params;
+      const { format } = exportQuerySchema.parse(req.query);
+
+      logger.info('Exporting conversation', { correlationId: req.correlationId, id, format });
+
+      const file = formatExport(await conversationService.exportConversation(req.userId, id), format);
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.send(file.body);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Update conversation settings or rename it
+  router.patch('/:id', async (req, res, next) => {
+    try {
+      const { id } = req.params;
+      const validatedBody = updateConversationSchema.parse(req.body);
+
+      logger.info('Updating conversation', { correlationId: req.correlationId, id });
+
+      const conversation = await conversationService.updateConversation(req.userId, id, validatedBody);
       res.json(conversation);
     } catch (error) {
       next(error);
@@ -64,15 +223,56 @@ export function createConversationsRouter(conversationService: ConversationServi
       const { id } = req.params;
       logger.info('Deleting conversation', { correlationId: req.correlationId, id });
 
-      await conversationService.deleteConversation(id);
+      await conversationService.deleteConversation(req.userId, id);
       res.status(204).send();
     } catch (error) {
       next(error);
     }
   });
 
-  // Send a message
-  router.post('/:id/messages', async (req, res, next) => {
+  // Upload files to attach to the next message (multipart field "files")
+  router.post('/:id/attachments', upload.array('files'), async (req, res, next) => {
+    try {
+      const { id } = req.params;
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+
+      logger.info('Uploading attachments', {
+        correlationId: req.correlationId,
+        conversationId: id,
+        count: files.length
+      });
+
+      const attachments = await attachmentService.upload(req.userId, id, files);
+      res.status(201).json({ attachments });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Download an attachment as uploaded
+  router.get('/:id/attachments/:attachmentId', async (req, res, next) => {
+    try {
+      const { id, attachmentId } = req.params;
+      logger.info('Downloading attachment', {
+        correlationId: req.correlationId,
+        conversationId: id,
+        attachmentId
+      });
+
+      const attachment = await attachmentService.get(req.userId, id, attachmentId);
+      res.setHeader('Content-Type', `${attachment.mimeType}; charset=utf-8`);
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`
+      );
+      res.send(attachment.content);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Send a message; the reply is generated by a background job (see /api/jobs)
+  router.post('/:id/messages', idempotency, jobLimit, async (req, res, next) => {
     try {
       const { id } = req.params;
       const validatedBody = sendMessageSchema.parse(req.body);
@@ -82,8 +282,180 @@ export function createConversationsRouter(conversationService: ConversationServi
         conversationId: id
       });
 
-      const result = await conversationService.sendMessage(id, validatedBody.content);
+      const { content, attachmentIds, ...overrides } = validatedBody;
+      const result = await generationJobService.enqueue(
+        req.userId,
+        id,
+        { content, attachmentIds },
+        overrides,
+        req.correlationId
+      );
+      res.status(202).location(`/api/jobs/${result.job.id}`).json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Retry a failed or cancelled message: queues a job for its missing reply
+  router.post('/:id/messages/:messageId/retry', jobLimit, async (req, res, next) => {
+    try {
+      const { id, messageId } = req.params;
+
+      logger.info('Retrying message', {
+        correlationId: req.correlationId,
+        conversationId: id,
+        messageId
+      });
+
+      const result = await generationJobService.retry(req.userId, id, messageId, req.correlationId);
+      res.status(202).location(`/api/jobs/${result.job.id}`).json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Queued and running reply jobs, to follow after a page reload
+  router.get('/:id/jobs', async (req, res, next) => {
+    try {
+      const jobs = await generationJobService.listActive(req.userId, req.params.id);
+      res.json({ jobs });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Send a message and stream the reply as Server-Sent Events
+  router.post('/:id/messages/stream', generationLimit, async (req, res, next) => {
+    let validatedBody;
+    try {
+      validatedBody = sendMessageSchema.parse(req.body);
+    } catch (error) {
+      return next(error);
+    }
+
+    const { id } = req.params;
+    logger.info('Streaming message', {
+      correlationId: req.correlationId,
+      conversationId: id
+    });
+
+    // The client closing the connection (e.g. the Cancel button) stops generation upstream
+    const controller = abortOnClose(res);
+
+    const sendEvent = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      const { content, attachmentIds, ...overrides } = validatedBody;
+      const result = await conversationService.streamMessage(
+        req.userId,
+        id,
+        { content, attachmentIds },
+        overrides,
+        {
+          // Switched to an event stream only once the message is stored, so a
+          // missing conversation or bad attachment is a plain 404 or 400
+          onMessage: (message) => {
+            res.writeHead(200, {
+              'Content-Type': 'text/event-stream',
+              'Cache-Control': 'no-cache',
+              Connection: 'keep-alive',
+              'X-Accel-Buffering': 'no',
+            });
+            sendEvent('message', message);
+          },
+          onToken: (token) => sendEvent('token', { token }),
+          onToolStep: (step) => sendEvent('tool', step),
+        },
+        controller.signal
+      );
+      sendEvent('done', result);
+    } catch (error: any) {
+      if (controller.signal.aborted) {
+        return;
+      }
+      if (!res.headersSent) {
+        return next(error);
+      }
+      logger.error('Streaming message failed', {
+        correlationId: req.correlationId,
+        error: error.message,
+      });
+      // Headers are already sent, so the error goes out as an event with the usual envelope
+      sendEvent('error', toErrorResponse(error, req.correlationId).body);
+    }
+    res.end();
+  });
+
+  // Regenerate the last assistant reply as a new sibling version
+  router.post('/:id/regenerate', generationLimit, async (req, res, next) => {
+    const controller = abortOnClose(res);
+
+    try {
+      const { id } = req.params;
+      logger.info('Regenerating reply', { correlationId: req.correlationId, conversationId: id });
+
+      const result = await conversationService.regenerate(req.userId, id, controller.signal);
       res.json(result);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return;
+      }
+      next(error);
+    }
+  });
+
+  // Edit a user message: stores the edit as a sibling branch and replies to it
+  router.post('/:id/messages/:messageId/edit', generationLimit, async (req, res, next) => {
+    const controller = abortOnClose(res);
+
+    try {
+      const { id, messageId } = req.params;
+      const validatedBody = editMessageSchema.parse(req.body);
+
+      logger.info('Editing message', {
+        correlationId: req.correlationId,
+        conversationId: id,
+        messageId
+      });
+
+      const result = await conversationService.editMessage(
+        req.userId,
+        id,
+        messageId,
+        validatedBody.content,
+        controller.signal
+      );
+      res.json(result);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return;
+      }
+      next(error);
+    }
+  });
+
+  // Switch the active branch to the one containing a message
+  router.post('/:id/branch', async (req, res, next) => {
+    try {
+      const { id } = req.params;
+      const validatedBody = selectBranchSchema.parse(req.body);
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 20;
+
+      logger.info('Switching branch', {
+        correlationId: req.correlationId,
+        conversationId: id,
+        messageId: validatedBody.messageId
+      });
+
+      const conversation = await conversationService.selectBranch(
+        req.userId,
+        id,
+        validatedBody.messageId,
+        limit
+      );
+      res.json(conversation);
     } catch (error) {
       next(error);
     }
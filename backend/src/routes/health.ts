@@ -1,28 +1,43 @@
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
+import { ProviderHealth } from '../services/llm';
 
 const router = Router();
 const prisma = new PrismaClient();
 
-router.get('/healthz', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
-});
+/**
+ * Readiness depends on the database only: when every LLM provider is down the
+ * backend still serves history, so it stays in rotation and reports the
+ * providers' circuit states alongside.
+ */
+export function createHealthRouter(llmHealth: () => ProviderHealth[]) {
+  router.get('/healthz', (req, res) => {
+    res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  });
 
-router.get('/readyz', async (req, res) => {
-  try {
-    await prisma.$queryRaw`SELECT 1`;
-    res.json({
-      status: 'ready',
-      timestamp: new Date().toISOString(),
-      database: 'connected'
-    });
-  } catch (error) {
-    res.status(503).json({
-      status: 'not ready',
-      timestamp: new Date().toISOString(),
-      database: 'disconnected'
-    });
-  }
-});
+  router.get('/readyz', async (req, res) => {
+    const providers = llmHealth();
+    const llm = providers.some((p) => p.state !== 'open') ? 'available' : 'unavailable';
 
-export default router;
+    try {
+      await prisma.$queryRaw`SELECT 1`;
+      res.json({
+        status: 'ready',
+        timestamp: new Date().toISOString(),
+        database: 'connected',
+        llm,
+        providers,
+      });
+    } catch (error) {
+      res.status(503).json({
+        status: 'not ready',
+        timestamp: new Date().toISOString(),
+        database: 'disconnected',
+        llm,
+        providers,
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,92 @@
+import { Router } from 'express';
+import { GenerationJobService, JobResponse, isFinished } from '../services/generationJobService';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+export function createJobsRouter(generationJobService: GenerationJobService) {
+  // Get a job's status; `replyId` is set once the reply is stored
+  router.get('/:id', async (req, res, next) => {
+    try {
+      const job = await generationJobService.get(req.userId, req.params.id);
+      res.json(job);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Follow a job as Server-Sent Events: `job` with its state and the reply so
+  // far, `token` and `tool` while it runs, then `done` with the final state
+  router.get('/:id/events', async (req, res, next) => {
+    let job: JobResponse;
+    try {
+      job = await generationJobService.get(req.userId, req.params.id);
+    } catch (error) {
+      return next(error);
+    }
+
+    logger.info('Following generation job', { correlationId: req.correlationId, jobId: job.id });
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+
+    const sendEvent = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    const finish = (finished: JobResponse) => {
+      if (res.writableEnded) return;
+      sendEvent('done', finished);
+      res.end();
+    };
+
+    if (isFinished(job)) {
+      return finish(job);
+    }
+
+    const { partial, unsubscribe } = generationJobService.subscribe(job.id, (event) => {
+      if (event.type === 'token') sendEvent('token', { token: event.token });
+      else if (event.type === 'tool') sendEvent('tool', event.step);
+      else finish(event.job);
+    });
+    sendEvent('job', { ...job, partial });
+
+    // Events only come from this process; a job running elsewhere (or one that
+    // finished before we subscribed) shows up in the database. The comment
+    // line also keeps proxies from closing an idle stream.
+    const poll = setInterval(async () => {
+      try {
+        const current = await generationJobService.get(req.userId, job.id);
+        if (isFinished(current)) finish(current);
+        else res.write(': waiting\n\n');
+      } catch (error: any) {
+        logger.warn('Failed to poll generation job', { jobId: job.id, error: error.message });
+      }
+    }, generationJobService.config.pollIntervalMs);
+
+    res.on('close', () => {
+      clearInterval(poll);
+      unsubscribe();
+    });
+  });
+
+  // Cancel a queued or running job; the user message is marked cancelled
+  router.post('/:id/cancel', async (req, res, next) => {
+    try {
+      logger.info('Cancelling generation job', {
+        correlationId: req.correlationId,
+        jobId: req.params.id
+      });
+
+      const job = await generationJobService.cancel(req.userId, req.params.id);
+      res.json(job);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,87 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import multer from 'multer';
+import { KnowledgeService } from '../services/knowledgeService';
+import { ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Multipart text fields arrive as strings
+const uploadDocumentSchema = z.object({
+  title: z.string().trim().max(200).optional(),
+});
+
+export function createKnowledgeRouter(knowledgeService: KnowledgeService) {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: knowledgeService.config.maxBytes, files: 1 },
+  });
+
+  // List the user's documents
+  router.get('/documents', async (req, res, next) => {
+    try {
+      logger.info('Listing knowledge documents', { correlationId: req.correlationId });
+      const documents = await knowledgeService.listDocuments(req.userId);
+      res.json({ documents });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Upload a document (multipart field "file"); it is chunked and embedded before responding
+  router.post('/documents', upload.single('file'), async (req, res, next) => {
+    try {
+      const { title } = uploadDocumentSchema.parse(req.body);
+      if (!req.file) {
+        throw new ValidationError('No file uploaded');
+      }
+
+      logger.info('Adding knowledge document', {
+        correlationId: req.correlationId,
+        filename: req.file.originalname,
+        size: req.file.size
+      });
+
+      const document = await knowledgeService.addDocument(req.userId, req.file, title);
+      res.status(201).json(document);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Delete a document and its chunks
+  router.delete('/documents/:id', async (req, res, next) => {
+    try {
+      const { id } = req.params;
+      logger.info('Deleting knowledge document', { correlationId: req.correlationId, id });
+
+      await knowledgeService.deleteDocument(req.userId, id);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // A cited chunk: plain text when opened in the browser, JSON for API clients
+  router.get('/documents/:id/chunks/:chunkId', async (req, res, next) => {
+    try {
+      const { id, chunkId } = req.params;
+      logger.info('Getting knowledge chunk', { correlationId: req.correlationId, id, chunkId });
+
+      const chunk = await knowledgeService.getChunk(req.userId, id, chunkId);
+      res.format({
+        'text/plain': () => {
+          res.send(`${chunk.title} (part ${chunk.ordinal + 1})\n\n${chunk.content}`);
+        },
+        'application/json': () => {
+          res.json(chunk);
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
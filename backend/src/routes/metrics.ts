@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { registry } from '../utils/metrics';
+
+const router = Router();
+
+router.get('/metrics', async (req, res, next) => {
+  try {
+    res.set('Content-Type', registry.contentType);
+    res.send(await registry.metrics());
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { LlmAdapter } from '../services/llm';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+export function createModelsRouter(llmAdapter: LlmAdapter) {
+  // List the models each configured provider can serve
+  router.get('/', async (req, res, next) => {
+    try {
+      logger.info('Listing models', { correlationId: req.correlationId });
+
+      const models = await llmAdapter.listModels();
+      res.json({ models });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
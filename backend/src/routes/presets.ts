@@ -0,0 +1,68 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { PresetService } from '../services/presetService';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+const createPresetSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  systemPrompt: z.string().min(1).max(20000),
+});
+
+const updatePresetSchema = createPresetSchema.partial();
+
+export function createPresetsRouter(presetService: PresetService) {
+  // List presets
+  router.get('/', async (req, res, next) => {
+    try {
+      logger.info('Listing presets', { correlationId: req.correlationId });
+      const presets = await presetService.listPresets(req.userId);
+      res.json(presets);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Create a preset
+  router.post('/', async (req, res, next) => {
+    try {
+      const validatedBody = createPresetSchema.parse(req.body);
+      logger.info('Creating preset', { correlationId: req.correlationId });
+
+      const preset = await presetService.createPreset(req.userId, validatedBody);
+      res.status(201).json(preset);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Update a preset
+  router.patch('/:id', async (req, res, next) => {
+    try {
+      const { id } = req.params;
+      const validatedBody = updatePresetSchema.parse(req.body);
+      logger.info('Updating preset', { correlationId: req.correlationId, id });
+
+      const preset = await presetService.updatePreset(req.userId, id, validatedBody);
+      res.json(preset);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Delete a preset
+  router.delete('/:id', async (req, res, next) => {
+    try {
+      const { id } = req.params;
+      logger.info('Deleting preset', { correlationId: req.correlationId, id });
+
+      await presetService.deletePreset(req.userId, id);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { SearchService } from '../services/searchService';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export function createSearchRouter(searchService: SearchService) {
+  // Search message content across all conversations
+  router.get('/', async (req, res, next) => {
+    try {
+      const { q, limit } = searchQuerySchema.parse(req.query);
+      logger.info('Searching messages', { correlationId: req.correlationId, limit });
+
+      const results = await searchService.search(req.userId, q, limit);
+      res.json({ query: q, results });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
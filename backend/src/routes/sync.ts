@@ -0,0 +1,139 @@
+import { IncomingMessage, Server } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { AuthService } from '../services/authService';
+import { SyncEvent, SyncService } from '../services/syncService';
+import { SESSION_COOKIE } from '../middleware/auth';
+import { syncConnections } from '../utils/metrics';
+import { logger } from '../utils/logger';
+
+export const SYNC_PATH = '/api/sync';
+
+// Sockets that miss a ping for this long are closed
+const PING_INTERVAL_MS = 30 * 1000;
+
+/** Frames sent to the client. */
+type SyncFrame =
+  // Load conversations afresh and resume from `seq`
+  | { type: 'reset'; seq: number }
+  // Caught up; live events follow
+  | { type: 'ready'; seq: number }
+  | { type: 'event'; event: SyncEvent };
+
+/**
+ * WebSocket endpoint pushing the signed-in user's sync events, e.g.
+ * `ws://host/api/sync?since=42`. With `since`, the events missed after that
+ * `seq` are sent first, then a `ready` frame; without it (or when the missed
+ * events are gone) the client gets a `reset` frame and reloads. Authenticated
+ * by the session cookie, like the REST API, and only open to `appOrigin`.
+ */
+export function attachSyncSocket(
+  server: Server,
+  authService: AuthService,
+  syncService: SyncService,
+  appOrigin: string
+) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== SYNC_PATH) {
+      socket.destroy();
+      return;
+    }
+
+    // Browsers send the session cookie with upgrades from any site, so only
+    // the app's own pages may connect
+    if (req.headers.origin !== appOrigin) {
+      logger.warn('Rejected sync socket from another origin', { origin: req.headers.origin });
+      socket.end('HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n');
+      return;
+    }
+
+    const token = readCookie(req, SESSION_COOKIE);
+    const userId = token ? authService.verifyToken(token) : null;
+    if (!userId) {
+      socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+      return;
+    }
+
+    const since = url.searchParams.get('since');
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      void handleConnection(ws, userId, since === null ? null : parseInt(since, 10));
+    });
+  });
+
+  async function handleConnection(ws: WebSocket, userId: string, since: number | null) {
+    syncConnections.inc();
+    let lastSeq = 0;
+    let live = false;
+    const pending: SyncEvent[] = [];
+
+    const send = (frame: SyncFrame) => {
+      if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(frame));
+    };
+    // Events can arrive from the catch-up and the live feed; each goes out once
+    const sendEvent = (event: SyncEvent) => {
+      if (event.seq <= lastSeq) return;
+      lastSeq = event.seq;
+      send({ type: 'event', event });
+    };
+
+    let unsubscribe: (() => void) | null = null;
+    let closed = false;
+
+    let alive = true;
+    ws.on('pong', () => {
+      alive = true;
+    });
+    const ping = setInterval(() => {
+      if (!alive) return ws.terminate();
+      alive = false;
+      ws.ping();
+    }, PING_INTERVAL_MS);
+
+    ws.on('close', () => {
+      closed = true;
+      clearInterval(ping);
+      unsubscribe?.();
+      syncConnections.dec();
+    });
+
+    try {
+      // Subscribe first, so nothing published during the catch-up is lost
+      const stop = await syncService.subscribe(userId, (event) => {
+        if (live) sendEvent(event);
+        else pending.push(event);
+      });
+      if (closed) return stop();
+      unsubscribe = stop;
+
+      const missed =
+        since === null || Number.isNaN(since) ? null : await syncService.since(userId, since);
+      if (missed === null) {
+        lastSeq = await syncService.latestSeq(userId);
+        send({ type: 'reset', seq: lastSeq });
+      } else {
+        lastSeq = since!;
+        missed.forEach(sendEvent);
+        send({ type: 'ready', seq: lastSeq });
+      }
+
+      live = true;
+      pending.forEach(sendEvent);
+      logger.info('Sync socket connected', { userId, since, caughtUp: missed?.length ?? null });
+    } catch (error: any) {
+      logger.error('Failed to start sync socket', { userId, error: error.message });
+      ws.close(1011, 'Internal server error');
+    }
+  }
+
+  return wss;
+}
+
+function readCookie(req: IncomingMessage, name: string): string | null {
+  for (const part of (req.headers.cookie ?? '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return null;
+}
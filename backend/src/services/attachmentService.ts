@@ -0,0 +1,105 @@
+import path from 'path';
+import { PrismaClient } from '@prisma/client';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { UploadedFile, decodeTextFile } from '../utils/textFile';
+
+const prisma = new PrismaClient();
+
+/** Uploaded but never sent attachments are removed after this long. */
+const ORPHAN_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface AttachmentConfig {
+  /** Largest accepted file, in bytes. */
+  maxBytes: number;
+  /** Files accepted per upload request. */
+  maxFiles: number;
+}
+
+export interface AttachmentSummary {
+  id: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+}
+
+export const attachmentSummarySelect = {
+  id: true,
+  filename: true,
+  mimeType: true,
+  size: true,
+} as const;
+
+export class AttachmentService {
+  readonly config: AttachmentConfig;
+
+  constructor(config: AttachmentConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Stores text files for a message that hasn't been sent yet. They stay
+   * unlinked until a send claims them by id.
+   */
+  async upload(ownerId: string, conversationId: string, files: UploadedFile[]) {
+    await this.assertOwner(ownerId, conversationId);
+
+    if (files.length === 0) {
+      throw new ValidationError('No files uploaded');
+    }
+    const decoded = files.map((file) => ({ file, content: decodeTextFile(file) }));
+
+    await prisma.attachment.deleteMany({
+      where: {
+        conversationId,
+        messageId: null,
+        createdAt: { lt: new Date(Date.now() - ORPHAN_TTL_MS) },
+      },
+    });
+
+    const attachments = await prisma.$transaction(
+      decoded.map(({ file, content }) =>
+        prisma.attachment.create({
+          data: {
+            conversationId,
+            filename: path.basename(file.originalname),
+            mimeType: file.mimetype || 'text/plain',
+            size: file.size,
+            content,
+          },
+          select: attachmentSummarySelect,
+        })
+      )
+    );
+
+    logger.info('Uploaded attachments', {
+      conversationId,
+      count: attachments.length,
+      bytes: files.reduce((sum, f) => sum + f.size, 0),
+    });
+    return attachments;
+  }
+
+  async get(ownerId: string, conversationId: string, attachmentId: string) {
+    await this.assertOwner(ownerId, conversationId);
+
+    const attachment = await prisma.attachment.findFirst({
+      where: { id: attachmentId, conversationId },
+    });
+    if (!attachment) {
+      throw new NotFoundError('Attachment not found');
+    }
+    return attachment;
+  }
+
+  private async assertOwner(ownerId: string, conversationId: string) {
+    const conversation = await prisma.conversation.findFirst({
+      where: { id: conversationId, ownerId },
+      select: { id: true },
+    });
+
+    if (!conversation) {
+      throw new NotFoundError('Conversation not found');
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { CookieOptions } from 'express';
+import jwt from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+export interface AuthConfig {
+  jwtSecret: string;
+  sessionTtlSeconds: number;
+  /** Send the session cookie over HTTPS only. */
+  secureCookies: boolean;
+  allowRegistration: boolean;
+}
+
+export interface AuthUser {
+  id: string;
+  email: string;
+}
+
+export interface Session {
+  user: AuthUser;
+  token: string;
+}
+
+/**
+ * Local email/password accounts. Passwords are hashed with scrypt; sessions
+ * are stateless JWTs carried in an httpOnly cookie.
+ */
+export class AuthService {
+  private config: AuthConfig;
+
+  constructor(config: AuthConfig) {
+    this.config = config;
+  }
+
+  get registrationOpen() {
+    return this.config.allowRegistration;
+  }
+
+  get cookieOptions(): CookieOptions {
+    return {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: this.config.secureCookies,
+      maxAge: this.config.sessionTtlSeconds * 1000,
+      path: '/',
+    };
+  }
+
+  /** Returns null when the email is already registered. */
+  async register(email: string, password: string): Promise<Session | null> {
+    const normalizedEmail = normalizeEmail(email);
+    const existing = await prisma.user.findUnique({ where: { email: normalizedEmail } });
+    if (existing) {
+      return null;
+    }
+
+    const user = await prisma.user.create({
+      data: { email: normalizedEmail, passwordHash: await hashPassword(password) },
+    });
+
+    // The first account adopts conversations created before accounts existed
+    if ((await prisma.user.count()) === 1) {
+      const { count } = await prisma.conversation.updateMany({
+        where: { ownerId: null },
+        data: { ownerId: user.id },
+      });
+      logger.info('Assigned existing conversations to first user', { userId: user.id, count });
+    }
+
+    logger.info('Registered user', { userId: user.id });
+    return this.createSession(user);
+  }
+
+  /** Returns null for an unknown email or a wrong password. */
+  async login(email: string, password: string): Promise<Session | null> {
+    const user = await prisma.user.findUnique({ where: { email: normalizeEmail(email) } });
+
+    // Hash anyway for unknown emails so response times don't reveal which exist
+    const valid = await verifyPassword(password, user?.passwordHash ?? null);
+    if (!user || !valid) {
+      logger.warn('Failed login attempt');
+      return null;
+    }
+
+    logger.info('User logged in', { userId: user.id });
+    return this.createSession(user);
+  }
+
+  async getUser(id: string): Promise<AuthUser | null> {
+    const user = await prisma.user.findUnique({ where: { id } });
+    return user ? toAuthUser(user) : null;
+  }
+
+  /** Returns the user id from a valid, unexpired session token. */
+  verifyToken(token: string): string | null {
+    try {
+      const payload = jwt.verify(token, this.config.jwtSecret, { algorithms: ['HS256'] });
+      return typeof payload === 'object' && typeof payload.sub === 'string' ? payload.sub : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private createSession(user: { id: string; email: string }): Session {
+    const token = jwt.sign({}, this.config.jwtSecret, {
+      subject: user.id,
+      algorithm: 'HS256',
+      expiresIn: this.config.sessionTtlSeconds,
+    });
+    return { user: toAuthUser(user), token };
+  }
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+async function verifyPassword(password: string, stored: string | null): Promise<boolean> {
+  const [saltHex, hashHex] = stored?.split(':') ?? [];
+  const salt = saltHex ? Buffer.from(saltHex, 'hex') : randomBytes(SALT_LENGTH);
+  const expected = hashHex ? Buffer.from(hashHex, 'hex') : Buffer.alloc(KEY_LENGTH);
+
+  const actual = await scryptAsync(password, salt, KEY_LENGTH);
+  return stored !== null && actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function toAuthUser(user: { id: string; email: string }): AuthUser {
+  return { id: user.id, email: user.email };
+}
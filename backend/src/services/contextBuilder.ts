@@ -0,0 +1,194 @@
+import { LlmAdapter, Message as LlmMessage } from './llm';
+import { logger } from '../utils/logger';
+
+export interface ContextConfig {
+  /** Estimated prompt tokens allowed per LLM call, system prompt and summary included. */
+  tokenBudget: number;
+  /** Fold turns that no longer fit into a running summary produced by the LLM. */
+  summarize: boolean;
+}
+
+export interface HistoryMessage {
+  id: string;
+  role: LlmMessage['role'];
+  content: string;
+}
+
+export interface ContextInput {
+  systemPrompt: string | null;
+  /** Retrieved knowledge-base excerpts, sent right after the system prompt. */
+  knowledge?: string | null;
+  /**
+   * Stored running summary and the id of the newest message folded into it.
+   * The summary is only used when that message is part of `history`.
+   */
+  summary: string | null;
+  summaryThroughId: string | null;
+  /** Conversation history, oldest first, ending with the new user message. */
+  history: HistoryMessage[];
+  signal?: AbortSignal;
+}
+
+export interface ContextResult {
+  messages: LlmMessage[];
+  /** Set when the running summary was extended and should be persisted. */
+  summaryUpdate?: { summary: string; summaryThroughId: string };
+}
+
+// Per-message overhead for role markers and chat template tokens
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Rough token estimate (~4 characters per token for English text). Good
+ * enough for budgeting without pulling in a model-specific tokenizer.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Decides which part of a conversation is sent to the LLM. Keeps the system
+ * prompt plus as many of the most recent messages as fit in the token budget,
+ * and optionally replaces the older ones with a stored running summary.
+ */
+export class ContextBuilder {
+  private llmAdapter: LlmAdapter;
+  private config: ContextConfig;
+
+  constructor(llmAdapter: LlmAdapter, config: ContextConfig) {
+    this.llmAdapter = llmAdapter;
+    this.config = config;
+  }
+
+  async build(input: ContextInput): Promise<ContextResult> {
+    const systemMessages: LlmMessage[] = [input.systemPrompt, input.knowledge]
+      .filter((content): content is string => !!content)
+      .map((content) => ({ role: 'system' as const, content }));
+
+    // The stored summary belongs to one branch; ignore it on any other
+    const summarizedIndex = input.summaryThroughId
+      ? input.history.findIndex((m) => m.id === input.summaryThroughId)
+      : -1;
+    const storedSummary = summarizedIndex === -1 ? null : input.summary;
+
+    const { recent, dropped } = this.fitHistory(
+      input.history,
+      systemMessages,
+      storedSummary,
+      summarizedIndex
+    );
+
+    if (dropped.length === 0) {
+      return { messages: [...systemMessages, ...recent.map(toLlmMessage)] };
+    }
+
+    logger.info('Context budget exceeded, dropping older turns', {
+      dropped: dropped.length,
+      kept: recent.length,
+      tokenBudget: this.config.tokenBudget,
+    });
+
+    if (!this.config.summarize) {
+      return { messages: [...systemMessages, ...recent.map(toLlmMessage)] };
+    }
+
+    let summary = storedSummary;
+    let summaryUpdate: ContextResult['summaryUpdate'];
+
+    // Only the dropped messages newer than the stored summary still need folding in
+    const unsummarized = dropped.slice(summarizedIndex + 1);
+
+    if (unsummarized.length > 0) {
+      try {
+        summary = await this.summarize(storedSummary, unsummarized, input.signal);
+        summaryUpdate = {
+          summary,
+          summaryThroughId: unsummarized[unsummarized.length - 1].id,
+        };
+      } catch (error: any) {
+        if (input.signal?.aborted) throw error;
+        // A stale summary is better than failing the user's turn
+        logger.warn('Failed to update conversation summary', { error: error.message });
+      }
+    }
+
+    const summaryMessages: LlmMessage[] = summary
+      ? [{ role: 'system', content: `Summary of the earlier conversation:\n${summary}` }]
+      : [];
+
+    return {
+      messages: [...systemMessages, ...summaryMessages, ...recent.map(toLlmMessage)],
+      summaryUpdate,
+    };
+  }
+
+  /**
+   * Splits history into the newest messages that fit the budget and the older
+   * ones that don't. The newest message is always kept, even if it alone
+   * exceeds the budget. When older messages are dropped, the summary is sent
+   * in their place, so the messages it covers (up to `summarizedIndex`) are
+   * dropped too rather than sent twice.
+   */
+  private fitHistory(
+    history: HistoryMessage[],
+    systemMessages: LlmMessage[],
+    summary: string | null,
+    summarizedIndex: number
+  ) {
+    let remaining = this.config.tokenBudget;
+    for (const m of systemMessages) {
+      remaining -= estimateTokens(m.content);
+    }
+    const useSummary = this.config.summarize && !!summary;
+    if (useSummary) {
+      remaining -= estimateTokens(summary);
+    }
+
+    let start = history.length;
+    while (start > 0) {
+      const cost = estimateTokens(history[start - 1].content);
+      if (cost > remaining && start < history.length) break;
+      remaining -= cost;
+      start--;
+    }
+
+    if (useSummary && start > 0 && start <= summarizedIndex) {
+      start = Math.min(summarizedIndex + 1, history.length - 1);
+    }
+
+    return { recent: history.slice(start), dropped: history.slice(0, start) };
+  }
+
+  private async summarize(
+    previousSummary: string | null,
+    messages: HistoryMessage[],
+    signal?: AbortSignal
+  ): Promise<string> {
+    const transcript = messages.map((m) => `${m.role}: ${m.content}`).join('\n');
+    const response = await this.llmAdapter.complete({
+      messages: [
+        {
+          role: 'system',
+          content:
+            'You maintain a running summary of a conversation between a user and an assistant. ' +
+            'Keep facts, decisions, names and open questions. Reply with the updated summary only.',
+        },
+        {
+          role: 'user',
+          content:
+            (previousSummary ? `Current summary:\n${previousSummary}\n\n` : '') +
+            `New messages:\n${transcript}\n\nWrite the updated summary in at most 200 words.`,
+        },
+      ],
+      signal,
+      purpose: 'summary',
+    });
+
+    logger.info('Updated conversation summary', { foldedMessages: messages.length });
+    return response.completion.trim();
+  }
+}
+
+function toLlmMessage(m: HistoryMessage): LlmMessage {
+  return { role: m.role, content: m.content };
+}
@@ -0,0 +1,76 @@
+import { ConversationExport } from './conversationService';
+
+export const EXPORT_FORMATS = ['md', 'json', 'jsonl'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: string;
+}
+
+const ROLE_HEADINGS: Record<string, string> = {
+  system: 'System',
+  user: 'User',
+  assistant: 'Assistant',
+};
+
+/** Serializes an exported conversation for download. */
+export function formatExport(conversation: ConversationExport, format: ExportFormat): ExportFile {
+  const filename = `${slugify(conversation.title) || 'conversation'}.${format}`;
+
+  switch (format) {
+    case 'md':
+      return { filename, contentType: 'text/markdown; charset=utf-8', body: toMarkdown(conversation) };
+    case 'json':
+      return {
+        filename,
+        contentType: 'application/json; charset=utf-8',
+        body: JSON.stringify({ ...conversation, exportedAt: new Date().toISOString() }, null, 2),
+      };
+    case 'jsonl':
+      return { filename, contentType: 'application/x-ndjson; charset=utf-8', body: toJsonl(conversation) };
+  }
+}
+
+function toMarkdown(conversation: ConversationExport): string {
+  const sections = [`# ${conversation.title}`, `_Exported ${new Date().toISOString()}_`];
+
+  if (conversation.systemPrompt) {
+    sections.push(`## System\n\n${conversation.systemPrompt}`);
+  }
+
+  for (const message of conversation.messages) {
+    const heading = ROLE_HEADINGS[message.role] ?? message.role;
+    const suffix =
+      message.status === 'cancelled' || message.status === 'failed' ? ` (${message.status})` : '';
+    sections.push(`## ${heading}${suffix}\n\n${message.content}`);
+  }
+
+  return sections.join('\n\n') + '\n';
+}
+
+/**
+ * Chat fine-tuning layout: one `{"messages": [...]}` record per line. A
+ * conversation is one record; turns without a reply (pending, failed or
+ * cancelled) are left out since they have nothing to learn from.
+ */
+function toJsonl(conversation: ConversationExport): string {
+  const messages = conversation.messages
+    .filter((m) => m.status === 'complete')
+    .map((m) => ({ role: m.role, content: m.content }));
+
+  if (conversation.systemPrompt) {
+    messages.unshift({ role: 'system', content: conversation.systemPrompt });
+  }
+
+  return JSON.stringify({ messages }) + '\n';
+}
+
+function slugify(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+}
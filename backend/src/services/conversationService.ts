@@ -1,37 +1,147 @@
-import { PrismaClient } from '@prisma/client';
-import { LlmAdapter } from './llm';
+import { Conversation, Prisma, PrismaClient } from '@prisma/client';
+import { CompletionInput, CompletionResult, LlmAdapter, Message as LlmMessage } from './llm';
+import { ToolRegistry, ToolStep } from './tools';
+import { ContextBuilder } from './contextBuilder';
+import { AttachmentSummary, attachmentSummarySelect } from './attachmentService';
+import { Citation, KnowledgeService, RetrievedChunk, formatKnowledge, toCitations } from './knowledgeService';
+import { MessageTree } from './messageTree';
+import { SyncService } from './syncService';
+import { DEFAULT_CONVERSATION_TITLE, TitleGenerator, fallbackTitle } from './titleGenerator';
+import { AppError, ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { generationsInFlight } from '../utils/metrics';
 import { logger } from '../utils/logger';
 
 const prisma = new PrismaClient();
 
+interface StoredMessage {
+  id: string;
+  parentId: string | null;
+  role: string;
+  content: string;
+  status: string;
+  failureReason: string | null;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  provider: string | null;
+  model: string | null;
+  createdAt: Date;
+  /** Knowledge-base sources of an assistant reply, see `Citation`. */
+  citations: Prisma.JsonValue;
+  /** Tool calls made while producing an assistant reply, see `ToolStep`. */
+  toolCalls: Prisma.JsonValue;
+  /** Loaded for user messages; replies never carry attachments. */
+  attachments?: AttachmentSummary[];
+}
+
+/** A user message to send, with the ids of attachments uploaded for it. */
+export interface NewMessage {
+  content: string;
+  attachmentIds?: string[];
+}
+
+/**
+ * Model choice and sampling parameters for replies. Stored per conversation
+ * (null = server default) and overridable per message.
+ */
+export interface GenerationSettings {
+  provider?: string | null;
+  model?: string | null;
+  temperature?: number | null;
+  topP?: number | null;
+  maxTokens?: number | null;
+}
+
+export interface MessageResponse {
+  id: string;
+  parentId: string | null;
+  /** All versions of this turn (including this one), oldest first. */
+  siblingIds: string[];
+  role: string;
+  content: string;
+  /**
+   * For user messages, whether the reply is `pending`, `complete`, `failed`
+   * (see `failureReason`) or `cancelled`; always `complete` otherwise.
+   */
+  status: string;
+  /** Why no reply was stored for a failed user message. */
+  failureReason: string | null;
+  usage: { promptTokens: number | null; completionTokens: number | null } | null;
+  /** Provider and model that produced an assistant message. */
+  provider: string | null;
+  model: string | null;
+  attachments: AttachmentSummary[];
+  /** Knowledge-base excerpts an assistant reply was given, numbered as cited. */
+  citations: Citation[];
+  /** Tools the model called before giving an assistant reply, in call order. */
+  toolCalls: ToolStep[];
+  createdAt: string;
+}
+
+/** A conversation's active branch in full, as exported. */
+export interface ConversationExport {
+  id: string;
+  title: string;
+  systemPrompt: string | null;
+  createdAt: string;
+  messages: MessageResponse[];
+}
+
+/** A linear conversation to import, e.g. a JSON export or a fine-tuning record. */
+export interface ImportedConversation {
+  title?: string;
+  systemPrompt?: string | null;
+  messages: {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+    status?: 'complete' | 'failed' | 'cancelled';
+    failureReason?: string | null;
+    usage?: { promptTokens: number | null; completionTokens: number | null } | null;
+    createdAt?: string;
+  }[];
+}
+
 export class ConversationService {
   private llmAdapter: LlmAdapter;
-  private conversationCounter = 0;
+  private contextBuilder: ContextBuilder;
+  private titleGenerator: TitleGenerator;
+  private knowledgeService: KnowledgeService;
+  private toolRegistry: ToolRegistry;
+  private syncService: SyncService;
 
-  constructor(llmAdapter: LlmAdapter) {
+  constructor(
+    llmAdapter: LlmAdapter,
+    contextBuilder: ContextBuilder,
+    titleGenerator: TitleGenerator,
+    knowledgeService: KnowledgeService,
+    toolRegistry: ToolRegistry,
+    syncService: SyncService
+  ) {
     this.llmAdapter = llmAdapter;
-    this.initCounter();
+    this.contextBuilder = contextBuilder;
+    this.titleGenerator = titleGenerator;
+    this.knowledgeService = knowledgeService;
+    this.toolRegistry = toolRegistry;
+    this.syncService = syncService;
   }
 
-  private async initCounter() {
-    const count = await prisma.conversation.count();
-    this.conversationCounter = count;
-  }
-
-  async createConversation() {
-    this.conversationCounter++;
-    const title = `Conversation #${this.conversationCounter}`;
+  async createConversation(ownerId: string) {
+    // Renamed after the first reply, see maybeGenerateTitle
+    const title = DEFAULT_CONVERSATION_TITLE;
 
     const conversation = await prisma.conversation.create({
-      data: { title },
+      data: { ownerId, title },
     });
 
-    logger.info('Created conversation', { id: conversation.id, title });
+    logger.info('Created conversation', { id: conversation.id, ownerId, title });
+    await this.syncService.publish(ownerId, 'conversation.created', conversation.id, {
+      conversation: toConversationSummary(conversation, null),
+    });
     return conversation;
   }
 
-  async listConversations() {
+  async listConversations(ownerId: string) {
     const conversations = await prisma.conversation.findMany({
+      where: { ownerId },
       orderBy: { createdAt: 'desc' },
       include: {
         messages: {
@@ -41,144 +151,918 @@ export class ConversationService {
       },
     });
 
-    return conversations.map((conv) => ({
-      id: conv.id,
-      title: conv.title,
-      createdAt: conv.createdAt.toISOString(),
-      lastMessageAt: conv.messages[0]?.createdAt.toISOString() || null,
-    }));
+    return conversations.map((conv) =>
+      toConversationSummary(conv, conv.messages[0]?.createdAt ?? null)
+    );
   }
 
-  async getConversation(id: string, messagesCursor?: string, limit: number = 20) {
-    const conversation = await prisma.conversation.findUnique({
-      where: { id },
-    });
+  async getConversation(ownerId: string, id: string, messagesCursor?: string, limit: number = 20) {
+    const { conversation, tree } = await this.loadTree(ownerId, id);
 
-    if (!conversation) {
-      throw new Error('Conversation not found');
-    }
+    // Only the active branch is shown: root to active leaf, oldest first
+    const path = tree.pathTo(tree.resolveLeaf(conversation.activeLeafId)?.id ?? null);
 
-    // Cursor pagination
-    const where: any = { conversationId: id };
+    // Cursor pagination over the branch, newest first. A page ends at the
+    // cursor message (inclusive) and reaches back `limit` messages.
+    let endIndex = path.length - 1;
     if (messagesCursor) {
-      where.id = { lte: messagesCursor };
+      endIndex = path.findIndex((m) => m.id === messagesCursor);
+      if (endIndex === -1) {
+        throw new NotFoundError('Message cursor not found on the active branch');
+      }
     }
 
-    const messages = await prisma.message.findMany({
-      where,
-      orderBy: { createdAt: 'desc' },
-      take: limit + 1, // Fetch one extra to check for next page
-    });
+    const startIndex = Math.max(0, endIndex - limit + 1);
+    const pageMessages = path.slice(startIndex, endIndex + 1);
 
-    const hasMore = messages.length > limit;
-    const pageMessages = hasMore ? messages.slice(0, limit) : messages;
-
-    // Get prev cursor (oldest message on current page)
-    let prevCursor: string | null = null;
-    if (messagesCursor) {
-      const olderMessages = await prisma.message.findMany({
-        where: {
-          conversationId: id,
-          id: { gt: pageMessages[pageMessages.length - 1]?.id },
-        },
-        orderBy: { createdAt: 'asc' },
-        take: 1,
-      });
-      prevCursor = olderMessages[0]?.id || null;
-    }
+    const nextCursor = startIndex > 0 ? path[startIndex - 1].id : null;
+    const prevCursor =
+      messagesCursor && endIndex < path.length - 1
+        ? path[Math.min(endIndex + limit, path.length - 1)].id
+        : null;
 
     return {
       id: conversation.id,
       title: conversation.title,
-      messages: pageMessages.reverse().map((msg) => ({
-        id: msg.id,
-        role: msg.role,
-        content: msg.content,
-        createdAt: msg.createdAt.toISOString(),
-      })),
+      systemPrompt: conversation.systemPrompt,
+      ...toSettingsResponse(conversation),
+      messages: pageMessages.map((msg) => toMessageResponse(msg, tree)),
       pageInfo: {
-        nextCursor: hasMore ? messages[limit].id : null,
+        nextCursor,
         prevCursor,
       },
     };
   }
 
-  async deleteConversation(id: string) {
-    await prisma.conversation.delete({
+  async updateConversation(
+    ownerId: string,
+    id: string,
+    data: { title?: string; systemPrompt?: string | null } & GenerationSettings
+  ) {
+    await this.assertOwner(ownerId, id);
+    const conversation = await prisma.conversation.update({
       where: { id },
+      data: {
+        title: data.title?.trim(),
+        // Blank prompts are stored as "no system prompt"
+        systemPrompt:
+          data.systemPrompt === undefined ? undefined : data.systemPrompt?.trim() || null,
+        provider: data.provider,
+        // Going back to the default provider also drops its model
+        model: data.provider === null ? null : data.model,
+        temperature: data.temperature,
+        topP: data.topP,
+        maxTokens: data.maxTokens,
+      },
+    });
+
+    logger.info('Updated conversation', { id, fields: Object.keys(data) });
+    const updated = {
+      id: conversation.id,
+      title: conversation.title,
+      systemPrompt: conversation.systemPrompt,
+      ...toSettingsResponse(conversation),
+    };
+    await this.syncService.publish(ownerId, 'conversation.updated', id, { conversation: updated });
+    return updated;
+  }
+
+  async exportConversation(ownerId: string, id: string): Promise<ConversationExport> {
+    const { conversation, tree } = await this.loadTree(ownerId, id);
+    const path = tree.pathTo(tree.resolveLeaf(conversation.activeLeafId)?.id ?? null);
+
+    return {
+      id: conversation.id,
+      title: conversation.title,
+      systemPrompt: conversation.systemPrompt,
+      createdAt: conversation.createdAt.toISOString(),
+      messages: path.map((msg) => toMessageResponse(msg, tree)),
+    };
+  }
+
+  /**
+   * Stores an imported conversation as a single branch. System messages
+   * become the conversation's system prompt unless one is given explicitly.
+   */
+  async importConversation(ownerId: string, data: ImportedConversation) {
+    const systemMessages = data.messages.filter((m) => m.role === 'system');
+    const turns = data.messages.filter((m) => m.role !== 'system');
+
+    const systemPrompt =
+      data.systemPrompt !== undefined
+        ? data.systemPrompt?.trim() || null
+        : systemMessages.map((m) => m.content).join('\n\n') || null;
+    const firstUserMessage = turns.find((m) => m.role === 'user');
+    const title =
+      data.title?.trim() ||
+      (firstUserMessage ? fallbackTitle(firstUserMessage.content) : DEFAULT_CONVERSATION_TITLE);
+
+    const conversation = await prisma.$transaction(async (tx) => {
+      const created = await tx.conversation.create({
+        data: { ownerId, title, systemPrompt },
+      });
+
+      let parentId: string | null = null;
+      let lastCreatedAt: Date | null = null;
+      for (const turn of turns) {
+        // Branch order follows createdAt, so keep timestamps strictly increasing
+        let createdAt = turn.createdAt ? new Date(turn.createdAt) : new Date();
+        if (lastCreatedAt && createdAt <= lastCreatedAt) {
+          createdAt = new Date(lastCreatedAt.getTime() + 1);
+        }
+
+        const message: { id: string } = await tx.message.create({
+          data: {
+            conversationId: created.id,
+            parentId,
+            role: turn.role,
+            content: turn.content,
+            status: turn.status ?? 'complete',
+            failureReason: turn.status === 'failed' ? turn.failureReason ?? null : null,
+            promptTokens: turn.usage?.promptTokens ?? null,
+            completionTokens: turn.usage?.completionTokens ?? null,
+            createdAt,
+          },
+        });
+
+        parentId = message.id;
+        lastCreatedAt = createdAt;
+      }
+
+      return tx.conversation.update({
+        where: { id: created.id },
+        data: { activeLeafId: parentId, lastMessageAt: lastCreatedAt },
+      });
+    }, { timeout: 30000 });
+
+    logger.info('Imported conversation', { id: conversation.id, messages: turns.length });
+    await this.syncService.publish(ownerId, 'conversation.created', conversation.id, {
+      conversation: toConversationSummary(conversation, conversation.lastMessageAt),
     });
+    return conversation;
+  }
+
+  async deleteConversation(ownerId: string, id: string) {
+    const { count } = await prisma.conversation.deleteMany({
+      where: { id, ownerId },
+    });
+
+    if (count === 0) {
+      throw new NotFoundError('Conversation not found');
+    }
 
     logger.info('Deleted conversation', { id });
+    await this.syncService.publish(ownerId, 'conversation.deleted', id, { id });
+  }
+
+  /**
+   * Stores a user message at the end of the active branch without replying to
+   * it; `replyTo` generates the reply, e.g. from a generation job.
+   */
+  async addMessage(ownerId: string, conversationId: string, input: NewMessage) {
+    const { conversation, tree } = await this.loadTree(ownerId, conversationId);
+    const parent = tree.resolveLeaf(conversation.activeLeafId);
+    const userMessage = await this.addUserMessage(
+      tree,
+      conversation,
+      parent?.id ?? null,
+      input.content,
+      input.attachmentIds
+    );
+
+    return toMessageResponse(userMessage, tree);
   }
 
-  async sendMessage(conversationId: string, content: string) {
-    const conversation = await prisma.conversation.findUnique({
+  /**
+   * Generates the reply to a stored user message. `overrides` apply to this
+   * reply only, on top of the conversation's settings. Cancellation is left to
+   * the caller, see `cancelTurn`.
+   */
+  async replyTo(
+    ownerId: string,
+    conversationId: string,
+    userMessageId: string,
+    overrides: GenerationSettings,
+    handlers: {
+      onToken?: (token: string) => void;
+      onToolStep?: (step: ToolStep) => void;
+    },
+    signal?: AbortSignal
+  ) {
+    const { conversation, tree } = await this.loadTree(ownerId, conversationId);
+    const userMessage = tree.get(userMessageId);
+    if (!userMessage || userMessage.role !== 'user') {
+      throw new NotFoundError('Message not found');
+    }
+
+    const assistantMessage = await this.generateReply(conversation, tree, userMessage, {
+      signal,
+      overrides,
+      ...handlers,
+    });
+
+    return { reply: toMessageResponse(assistantMessage, tree), title: conversation.title };
+  }
+
+  /**
+   * Marks the user message of an aborted turn as cancelled. No assistant
+   * message is stored, and cancelled turns are left out of later LLM context.
+   */
+  async cancelTurn(userMessageId: string) {
+    await this.setStatus(userMessageId, 'cancelled');
+
+    logger.info('Turn cancelled', { messageId: userMessageId });
+  }
+
+  /**
+   * Marks the user message of a turn whose reply could not be generated as
+   * failed, with a reason to show next to it. The turn can be retried, see
+   * `prepareRetry`; until then it is left out of later LLM context.
+   */
+  async failTurn(userMessageId: string, reason: string) {
+    await this.setStatus(userMessageId, 'failed', reason);
+
+    logger.info('Turn failed', { messageId: userMessageId, reason });
+  }
+
+  /**
+   * Checks that a failed or cancelled user message still has no reply and
+   * marks it pending again, so `replyTo` can generate the missing reply.
+   */
+  async prepareRetry(ownerId: string, conversationId: string, messageId: string) {
+    const { tree } = await this.loadTree(ownerId, conversationId);
+    const userMessage = tree.get(messageId);
+    if (!userMessage || userMessage.role !== 'user') {
+      throw new NotFoundError('Message not found');
+    }
+    if (tree.childrenOf(userMessage.id).some((m) => m.role === 'assistant')) {
+      throw new ConflictError('Message already has a reply');
+    }
+    if (userMessage.status !== 'failed' && userMessage.status !== 'cancelled') {
+      throw new ConflictError('Only failed or cancelled messages can be retried');
+    }
+
+    // Conditional, so only one of two concurrent retries goes ahead
+    const { count } = await prisma.message.updateMany({
+      where: { id: messageId, status: userMessage.status },
+      data: { status: 'pending', failureReason: null },
+    });
+    if (count === 0) {
+      throw new ConflictError('Message is already being retried');
+    }
+    userMessage.status = 'pending';
+    userMessage.failureReason = null;
+    await this.syncService.publish(ownerId, 'message.status', conversationId, {
+      messageId,
+      status: 'pending',
+      failureReason: null,
+    });
+
+    logger.info('Retrying turn', { conversationId, messageId });
+    return toMessageResponse(userMessage, tree);
+  }
+
+  /**
+   * Sends a message and streams the reply on the same request. `onMessage`
+   * fires once the user message is stored, `onToken` for every piece of the
+   * reply and `onToolStep` for every tool the model called; text streamed
+   * before a tool call is not part of the final reply. The assistant message
+   * is only stored when generation completes; aborting `signal` stops the
+   * upstream call and the turn is marked cancelled instead.
+   */
+  async streamMessage(
+    ownerId: string,
+    conversationId: string,
+    input: NewMessage,
+    overrides: GenerationSettings,
+    handlers: {
+      onMessage: (message: MessageResponse) => void;
+      onToken: (token: string) => void;
+      onToolStep?: (step: ToolStep) => void;
+    },
+    signal?: AbortSignal
+  ) {
+    const { conversation, tree } = await this.loadTree(ownerId, conversationId);
+    const parent = tree.resolveLeaf(conversation.activeLeafId);
+    const userMessage = await this.addUserMessage(
+      tree,
+      conversation,
+      parent?.id ?? null,
+      input.content,
+      input.attachmentIds
+    );
+    const message = toMessageResponse(userMessage, tree);
+    handlers.onMessage(message);
+
+    try {
+      const assistantMessage = await this.generateReply(conversation, tree, userMessage, {
+        signal,
+        overrides,
+        onToken: handlers.onToken,
+        onToolStep: handlers.onToolStep,
+      });
+
+      return {
+        message,
+        reply: toMessageResponse(assistantMessage, tree),
+        title: conversation.title,
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        await this.cancelTurn(userMessage.id);
+      } else {
+        logger.error('Failed to stream LLM response', { error: errorMessage(error) });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Generates a new version of the reply at the end of the active branch. The
+   * new reply is stored as a sibling of the current one and becomes active.
+   */
+  async regenerate(ownerId: string, conversationId: string, signal?: AbortSignal) {
+    const { conversation, tree } = await this.loadTree(ownerId, conversationId);
+    const leaf = tree.resolveLeaf(conversation.activeLeafId);
+    const userMessage =
+      leaf?.role === 'assistant' && leaf.parentId ? tree.get(leaf.parentId) : leaf;
+
+    if (!userMessage || userMessage.role !== 'user') {
+      throw new ConflictError('Nothing to regenerate');
+    }
+
+    // A turn cancelled or failed earlier gets its reply now
+    const hadNoReply = userMessage.status === 'cancelled' || userMessage.status === 'failed';
+    if (hadNoReply) {
+      await this.markPending(userMessage);
+    }
+
+    try {
+      const assistantMessage = await this.generateReply(conversation, tree, userMessage, { signal });
+      logger.info('Regenerated reply', { conversationId, messageId: assistantMessage.id });
+
+      return { reply: toMessageResponse(assistantMessage, tree), title: conversation.title };
+    } catch (error) {
+      // The previous reply, if any, stays active
+      if (signal?.aborted && hadNoReply) {
+        await this.cancelTurn(userMessage.id);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Stores an edited copy of a user message as a sibling branch of the
+   * original and generates a reply to it. The original branch is kept, and
+   * the edit gets copies of the original's attachments.
+   */
+  async editMessage(
+    ownerId: string,
+    conversationId: string,
+    messageId: string,
+    content: string,
+    signal?: AbortSignal
+  ) {
+    const { conversation, tree } = await this.loadTree(ownerId, conversationId);
+    const original = tree.get(messageId);
+
+    if (!original || original.role !== 'user') {
+      throw new ValidationError('Only user messages can be edited');
+    }
+
+    const userMessage = await this.addUserMessage(tree, conversation, original.parentId, content);
+    if (original.attachments?.length) {
+      userMessage.attachments = await this.copyAttachments(original.id, userMessage.id);
+    }
+
+    try {
+      const assistantMessage = await this.generateReply(conversation, tree, userMessage, { signal });
+      logger.info('Edited message', { conversationId, originalId: messageId, messageId: userMessage.id });
+
+      return {
+        message: toMessageResponse(userMessage, tree),
+        reply: toMessageResponse(assistantMessage, tree),
+        title: conversation.title,
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        await this.cancelTurn(userMessage.id);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Switches the active branch to the one containing `messageId`, following
+   * the newest replies below it. Returns the first page of the new branch.
+   */
+  async selectBranch(ownerId: string, conversationId: string, messageId: string, limit?: number) {
+    const { conversation, tree } = await this.loadTree(ownerId, conversationId);
+    if (!tree.get(messageId)) {
+      throw new NotFoundError('Message not found');
+    }
+
+    const leaf = tree.latestLeaf(messageId)!;
+    await prisma.conversation.update({
       where: { id: conversationId },
+      data: { activeLeafId: leaf.id },
+    });
+
+    logger.info('Switched branch', { conversationId, messageId, activeLeafId: leaf.id });
+    await this.syncService.publish(ownerId, 'conversation.updated', conversationId, {
+      conversation: { id: conversationId, title: conversation.title, activeLeafId: leaf.id },
+    });
+    return this.getConversation(ownerId, conversationId, undefined, limit);
+  }
+
+  /** Other users' conversations are reported as not found. */
+  private async assertOwner(ownerId: string, conversationId: string) {
+    const conversation = await prisma.conversation.findFirst({
+      where: { id: conversationId, ownerId },
+      select: { id: true },
+    });
+
+    if (!conversation) {
+      throw new NotFoundError('Conversation not found');
+    }
+  }
+
+  private async loadTree(ownerId: string, conversationId: string) {
+    const conversation = await prisma.conversation.findFirst({
+      where: { id: conversationId, ownerId },
       include: {
         messages: {
           orderBy: { createdAt: 'asc' },
+          include: { attachments: { select: attachmentSummarySelect, orderBy: { createdAt: 'asc' } } },
         },
       },
     });
 
     if (!conversation) {
-      throw new Error('Conversation not found');
+      throw new NotFoundError('Conversation not found');
     }
 
-    // Save user message
-    const userMessage = await prisma.message.create({
-      data: {
-        conversationId,
-        role: 'user',
-        content,
-      },
-    });
+    return { conversation, tree: new MessageTree<StoredMessage>(conversation.messages) };
+  }
 
-    // Build conversation history for LLM
-    const messages = [
-      ...conversation.messages.map((m) => ({
-        role: m.role as 'user' | 'assistant',
-        content: m.content,
-      })),
-      { role: 'user' as const, content },
-    ];
+  /**
+   * Stores a user message and links the given attachments to it. Attachments
+   * must have been uploaded to this conversation and not sent before.
+   */
+  private async addUserMessage(
+    tree: MessageTree<StoredMessage>,
+    conversation: Conversation,
+    parentId: string | null,
+    content: string,
+    attachmentIds: string[] = []
+  ): Promise<StoredMessage> {
+    const conversationId = conversation.id;
+    const ids = [...new Set(attachmentIds)];
 
-    try {
-      // Call LLM
-      const response = await this.llmAdapter.complete({ messages });
+    const userMessage = await prisma.$transaction(async (tx) => {
+      if (ids.length > 0) {
+        const available = await tx.attachment.count({
+          where: { id: { in: ids }, conversationId, messageId: null },
+        });
+        if (available !== ids.length) {
+          throw new ValidationError('Unknown or already sent attachment');
+        }
+      }
 
-      // Save assistant message
-      const assistantMessage = await prisma.message.create({
+      return tx.message.create({
         data: {
           conversationId,
-          role: 'assistant',
-          content: response.completion,
+          parentId,
+          role: 'user',
+          content,
+          status: 'pending',
+          attachments: { connect: ids.map((id) => ({ id })) },
         },
+        include: { attachments: { select: attachmentSummarySelect, orderBy: { createdAt: 'asc' } } },
       });
+    });
 
-      // Update conversation lastMessageAt
-      await prisma.conversation.update({
-        where: { id: conversationId },
-        data: { lastMessageAt: assistantMessage.createdAt },
-      });
+    await prisma.conversation.update({
+      where: { id: conversationId },
+      data: { activeLeafId: userMessage.id },
+    });
 
-      return {
-        message: {
-          id: userMessage.id,
-          role: userMessage.role,
-          content: userMessage.content,
-          createdAt: userMessage.createdAt.toISOString(),
-        },
-        reply: {
-          id: assistantMessage.id,
-          role: assistantMessage.role,
-          content: assistantMessage.content,
-          createdAt: assistantMessage.createdAt.toISOString(),
-        },
-      };
+    tree.add(userMessage);
+    await this.publishMessage(conversation, userMessage, tree);
+    return userMessage;
+  }
+
+  private async markPending(userMessage: StoredMessage) {
+    await this.setStatus(userMessage.id, 'pending');
+    userMessage.status = 'pending';
+    userMessage.failureReason = null;
+  }
+
+  /** Sets the reply status of a user message, see `MessageResponse.status`. */
+  private async setStatus(messageId: string, status: string, failureReason: string | null = null) {
+    const message = await prisma.message.update({
+      where: { id: messageId },
+      data: { status, failureReason },
+      select: { conversationId: true, conversation: { select: { ownerId: true } } },
+    });
+
+    await this.syncService.publish(
+      message.conversation.ownerId,
+      'message.status',
+      message.conversationId,
+      { messageId, status, failureReason }
+    );
+  }
+
+  private async publishMessage(
+    conversation: Conversation,
+    message: StoredMessage,
+    tree: MessageTree<StoredMessage>
+  ) {
+    await this.syncService.publish(conversation.ownerId, 'message.created', conversation.id, {
+      message: toMessageResponse(message, tree),
+    });
+  }
+
+  private async copyAttachments(fromMessageId: string, toMessageId: string) {
+    const originals = await prisma.attachment.findMany({
+      where: { messageId: fromMessageId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return prisma.$transaction(
+      originals.map(({ conversationId, filename, mimeType, size, content }) =>
+        prisma.attachment.create({
+          data: { conversationId, messageId: toMessageId, filename, mimeType, size, content },
+          select: attachmentSummarySelect,
+        })
+      )
+    );
+  }
+
+  private async generateReply(
+    conversation: Conversation,
+    tree: MessageTree<StoredMessage>,
+    userMessage: StoredMessage,
+    options: {
+      signal?: AbortSignal;
+      overrides?: GenerationSettings;
+      onToken?: (token: string) => void;
+      onToolStep?: (step: ToolStep) => void;
+    }
+  ) {
+    const { signal } = options;
+    generationsInFlight.inc();
+
+    try {
+      const sources = await this.retrieveSources(conversation, userMessage, signal);
+      const messages = await this.buildContext(conversation, tree, userMessage, sources, signal);
+      const input = { messages, signal, ...resolveGeneration(conversation, options.overrides) };
+
+      const { response, steps } = await this.runToolLoop(conversation, input, options);
+
+      const assistantMessage = await this.saveReply(
+        conversation.id,
+        userMessage.id,
+        response,
+        toCitations(sources),
+        steps
+      );
+      tree.add(assistantMessage);
+      userMessage.status = 'complete';
+      userMessage.failureReason = null;
+      await this.publishMessage(conversation, assistantMessage, tree);
+
+      this.maybeGenerateTitle(conversation, userMessage, assistantMessage);
+      return assistantMessage;
     } catch (error) {
-      logger.error('Failed to get LLM response', { error });
+      // A turn that had no reply yet keeps none; an aborted one is cancelled
+      // by the caller instead
+      if (!signal?.aborted && userMessage.status === 'pending') {
+        await this.failTurn(userMessage.id, failureReason(error)).catch((failError: unknown) =>
+          logger.error('Failed to mark turn failed', {
+            messageId: userMessage.id,
+            error: errorMessage(failError),
+          })
+        );
+      }
       throw error;
+    } finally {
+      generationsInFlight.dec();
     }
   }
+
+  /**
+   * Calls the model, runs the tools it asks for and calls it again with their
+   * results, until it answers. After `maxIterations` rounds of tool calls the
+   * model is called without tools so it has to answer with what it has. Token
+   * usage is summed over all calls. Anonymous conversations get no tools, as
+   * every tool is scoped to its owner.
+   */
+  private async runToolLoop(
+    conversation: Conversation,
+    input: CompletionInput,
+    options: { onToken?: (token: string) => void; onToolStep?: (step: ToolStep) => void }
+  ): Promise<{ response: CompletionResult; steps: ToolStep[] }> {
+    const tools = conversation.ownerId ? this.toolRegistry.definitions() : [];
+    const messages = [...input.messages];
+    const steps: ToolStep[] = [];
+    let promptTokens: number | undefined;
+    let completionTokens: number | undefined;
+
+    for (let iteration = 0; ; iteration++) {
+      const offerTools = tools.length > 0 && iteration < this.toolRegistry.config.maxIterations;
+      const callInput: CompletionInput = {
+        ...input,
+        messages,
+        tools: offerTools ? tools : undefined,
+        purpose: iteration === 0 ? 'reply' : 'tool',
+      };
+
+      const response = options.onToken
+        ? await this.llmAdapter.stream(callInput, options.onToken)
+        : await this.llmAdapter.complete(callInput);
+
+      if (response.usage?.promptTokens !== undefined) {
+        promptTokens = (promptTokens ?? 0) + response.usage.promptTokens;
+      }
+      if (response.usage?.completionTokens !== undefined) {
+        completionTokens = (completionTokens ?? 0) + response.usage.completionTokens;
+      }
+
+      if (!offerTools || !response.toolCalls?.length) {
+        const usage =
+          promptTokens !== undefined || completionTokens !== undefined
+            ? { promptTokens, completionTokens }
+            : undefined;
+        return { response: { ...response, usage }, steps };
+      }
+
+      messages.push({ role: 'assistant', content: response.completion, toolCalls: response.toolCalls });
+      for (const call of response.toolCalls) {
+        const step = await this.toolRegistry.execute(call, {
+          ownerId: conversation.ownerId!,
+          conversationId: conversation.id,
+          signal: input.signal,
+        });
+        steps.push(step);
+        options.onToolStep?.(step);
+        messages.push({ role: 'tool', content: step.result, toolCallId: call.id });
+      }
+
+      logger.info('Ran tool calls', {
+        conversationId: conversation.id,
+        iteration,
+        tools: response.toolCalls.map((call) => call.name),
+      });
+    }
+  }
+
+  /**
+   * Names the conversation after its first exchange, unless it was already
+   * renamed. Runs in the background so the reply isn't held up; clients get
+   * the title as a `conversation.updated` sync event.
+   */
+  private maybeGenerateTitle(
+    conversation: Conversation,
+    userMessage: StoredMessage,
+    assistantMessage: StoredMessage
+  ) {
+    if (userMessage.parentId !== null || conversation.title !== DEFAULT_CONVERSATION_TITLE) {
+      return;
+    }
+
+    this.generateTitle(conversation, userMessage.content, assistantMessage.content).catch(
+      (error: unknown) => {
+        logger.error('Failed to store generated title', {
+          conversationId: conversation.id,
+          error: errorMessage(error),
+        });
+      }
+    );
+  }
+
+  private async generateTitle(conversation: Conversation, userContent: string, replyContent: string) {
+    const title = await this.titleGenerator.generate(userContent, replyContent);
+    // Skipped if the user renamed the conversation meanwhile
+    const { count } = await prisma.conversation.updateMany({
+      where: { id: conversation.id, title: DEFAULT_CONVERSATION_TITLE },
+      data: { title },
+    });
+    if (count === 0) return;
+
+    logger.info('Generated conversation title', { id: conversation.id, title });
+    await this.syncService.publish(conversation.ownerId, 'conversation.updated', conversation.id, {
+      conversation: { id: conversation.id, title },
+    });
+  }
+
+  /**
+   * Knowledge-base chunks for the user's turn. Retrieval failing (e.g. the
+   * embedding model isn't available) degrades to a reply without sources.
+   */
+  private async retrieveSources(
+    conversation: Conversation,
+    userMessage: StoredMessage,
+    signal?: AbortSignal
+  ): Promise<RetrievedChunk[]> {
+    if (!conversation.ownerId) {
+      return [];
+    }
+
+    try {
+      return await this.knowledgeService.retrieve(conversation.ownerId, userMessage.content, signal);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      logger.warn('Knowledge retrieval failed, replying without sources', {
+        error: errorMessage(error),
+      });
+      return [];
+    }
+  }
+
+  private async buildContext(
+    conversation: Conversation,
+    tree: MessageTree<StoredMessage>,
+    userMessage: StoredMessage,
+    sources: RetrievedChunk[],
+    signal?: AbortSignal
+  ) {
+    // Build the LLM context from the branch ending at the user message: system
+    // prompt first, then as much recent history as fits the token budget.
+    // Turns left without a reply (cancelled or failed) are left out. Attachment text is appended to
+    // the message it was sent with, so it shares that message's budget.
+    const path = tree
+      .pathTo(userMessage.id)
+      .filter((m) => m.id === userMessage.id || (m.status !== 'cancelled' && m.status !== 'failed'));
+    const files = await this.loadAttachmentContent(path);
+
+    const history = path.map((m) => ({
+      id: m.id,
+      role: m.role as LlmMessage['role'],
+      content: withAttachments(m.content, files.get(m.id) ?? []),
+    }));
+
+    const context = await this.contextBuilder.build({
+      systemPrompt: conversation.systemPrompt,
+      knowledge: formatKnowledge(sources),
+      summary: conversation.summary,
+      summaryThroughId: conversation.summaryThroughId,
+      history,
+      signal,
+    });
+
+    if (context.summaryUpdate) {
+      await prisma.conversation.update({
+        where: { id: conversation.id },
+        data: context.summaryUpdate,
+      });
+    }
+
+    return context.messages;
+  }
+
+  private async loadAttachmentContent(messages: StoredMessage[]) {
+    const messageIds = messages.filter((m) => m.attachments?.length).map((m) => m.id);
+    const byMessage = new Map<string, { filename: string; content: string }[]>();
+    if (messageIds.length === 0) {
+      return byMessage;
+    }
+
+    const attachments = await prisma.attachment.findMany({
+      where: { messageId: { in: messageIds } },
+      orderBy: { createdAt: 'asc' },
+      select: { messageId: true, filename: true, content: true },
+    });
+    for (const { messageId, filename, content } of attachments) {
+      const list = byMessage.get(messageId!) ?? [];
+      list.push({ filename, content });
+      byMessage.set(messageId!, list);
+    }
+    return byMessage;
+  }
+
+  private async saveReply(
+    conversationId: string,
+    parentId: string,
+    response: CompletionResult,
+    citations: Citation[],
+    toolSteps: ToolStep[]
+  ) {
+    // Save assistant message with the provider's token usage
+    const assistantMessage = await prisma.message.create({
+      data: {
+        conversationId,
+        parentId,
+        role: 'assistant',
+        content: response.completion,
+        promptTokens: response.usage?.promptTokens,
+        completionTokens: response.usage?.completionTokens,
+        provider: response.provider,
+        model: response.model,
+        citations: citations.length > 0 ? (citations as unknown as Prisma.InputJsonArray) : undefined,
+        toolCalls: toolSteps.length > 0 ? (toolSteps as unknown as Prisma.InputJsonArray) : undefined,
+      },
+    });
+
+    // The user message has its reply now, in case it was pending
+    await this.setStatus(parentId, 'complete');
+
+    // The new reply becomes the end of the active branch
+    await prisma.conversation.update({
+      where: { id: conversationId },
+      data: {
+        lastMessageAt: assistantMessage.createdAt,
+        activeLeafId: assistantMessage.id,
+      },
+    });
+
+    return assistantMessage;
+  }
+}
+
+/** For logs; anything can be thrown, not only `Error`s. */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** Reason shown for a failed turn; only our own errors have user-facing messages. */
+function failureReason(error: unknown): string {
+  return error instanceof AppError ? error.message : 'Internal server error';
+}
+
+function toConversationSummary(conversation: Conversation, lastMessageAt: Date | null) {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    createdAt: conversation.createdAt.toISOString(),
+    lastMessageAt: lastMessageAt?.toISOString() ?? null,
+  };
+}
+
+function toMessageResponse(msg: StoredMessage, tree?: MessageTree<StoredMessage>): MessageResponse {
+  return {
+    id: msg.id,
+    parentId: msg.parentId,
+    siblingIds: tree ? tree.siblingsOf(msg).map((m) => m.id) : [msg.id],
+    role: msg.role,
+    content: msg.content,
+    status: msg.status,
+    failureReason: msg.failureReason,
+    usage:
+      msg.promptTokens !== null || msg.completionTokens !== null
+        ? { promptTokens: msg.promptTokens, completionTokens: msg.completionTokens }
+        : null,
+    provider: msg.provider,
+    model: msg.model,
+    attachments: msg.attachments ?? [],
+    citations: (msg.citations as unknown as Citation[] | null) ?? [],
+    toolCalls: (msg.toolCalls as unknown as ToolStep[] | null) ?? [],
+    createdAt: msg.createdAt.toISOString(),
+  };
+}
+
+/** Appends each file between delimiters the model can tell apart from the message. */
+function withAttachments(content: string, files: { filename: string; content: string }[]) {
+  if (files.length === 0) {
+    return content;
+  }
+
+  const blocks = files.map(
+    (file) =>
+      `--- BEGIN ATTACHMENT: ${file.filename} ---\n${file.content}\n--- END ATTACHMENT: ${file.filename} ---`
+  );
+  return [content, ...blocks].join('\n\n');
+}
+
+function toSettingsResponse(conversation: Conversation) {
+  return {
+    provider: conversation.provider,
+    model: conversation.model,
+    temperature: conversation.temperature,
+    topP: conversation.topP,
+    maxTokens: conversation.maxTokens,
+  };
+}
+
+/**
+ * Per-message overrides win over the conversation's settings, which win over
+ * the server defaults. Overriding only the provider means its default model.
+ */
+function resolveGeneration(
+  conversation: Conversation,
+  overrides: GenerationSettings = {}
+): Pick<CompletionInput, 'provider' | 'model' | 'params'> {
+  const switchesProvider =
+    overrides.provider != null && overrides.provider !== conversation.provider;
+
+  return {
+    provider: overrides.provider ?? conversation.provider ?? undefined,
+    model: (switchesProvider ? overrides.model : overrides.model ?? conversation.model) ?? undefined,
+    params: {
+      temperature: overrides.temperature ?? conversation.temperature ?? undefined,
+      topP: overrides.topP ?? conversation.topP ?? undefined,
+      maxTokens: overrides.maxTokens ?? conversation.maxTokens ?? undefined,
+    },
+  };
 }
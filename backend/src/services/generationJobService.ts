@@ -0,0 +1,507 @@
+import { EventEmitter } from 'events';
+import { GenerationJob, Prisma, PrismaClient } from '@prisma/client';
+import { ConversationService, GenerationSettings, NewMessage } from './conversationService';
+import { ToolStep } from './tools';
+import { ErrorEnvelope, toErrorResponse } from '../middleware/errorHandler';
+import { NotFoundError, RateLimitedError } from '../utils/errors';
+import { generationJobs } from '../utils/metrics';
+import { runWithRequestContext } from '../utils/requestContext';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+const ACTIVE_STATUSES: JobStatus[] = ['queued', 'running'];
+
+// A running job whose heartbeat is this many intervals old has lost its worker
+const STALE_HEARTBEATS = 3;
+
+// First key of the per-user advisory lock taken while a job is queued (the
+// second is a hash of the owner id), so concurrent sends can't both take the
+// last job slot
+const ENQUEUE_LOCK_CLASS = 7_420_002;
+
+export interface GenerationJobConfig {
+  /** Jobs this process runs at once. */
+  concurrency: number;
+  /** How often the worker looks for queued or abandoned jobs. */
+  pollIntervalMs: number;
+  /** How often a running job shows that its worker is alive. */
+  heartbeatMs: number;
+  /** Runs of a job, counting the ones cut short by a crash, before it fails. */
+  maxAttempts: number;
+  /** Queued and running jobs a user may have at once; 0 disables the check. */
+  maxActivePerUser: number;
+}
+
+export interface JobResponse {
+  id: string;
+  conversationId: string;
+  userMessageId: string;
+  status: JobStatus;
+  attempts: number;
+  /** The stored reply, once completed. */
+  replyId: string | null;
+  error: ErrorEnvelope | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Progress of a job running in this process, as sent to subscribers. */
+export type JobEvent =
+  | { type: 'token'; token: string }
+  | { type: 'tool'; step: ToolStep }
+  | { type: 'done'; job: JobResponse };
+
+interface RunningJob {
+  controller: AbortController;
+  /** Why the worker aborted the job, if it did. */
+  stopReason: 'cancelled' | 'shutdown' | 'lost' | null;
+  /** Reply so far, for subscribers that join while the job runs. */
+  content: string;
+  toolCalls: ToolStep[];
+  finished: Promise<void>;
+}
+
+export function isFinished(job: JobResponse): boolean {
+  return !ACTIVE_STATUSES.includes(job.status);
+}
+
+/**
+ * Replies generated in the background. Sending a message stores it with a
+ * queued job and returns; a worker in every backend process claims jobs from
+ * the database, runs the LLM call and stores the reply. Jobs outlive the
+ * request that created them, and a job whose worker died (no heartbeat) is
+ * claimed again, up to `maxAttempts` runs.
+ */
+export class GenerationJobService {
+  private conversationService: ConversationService;
+  readonly config: GenerationJobConfig;
+  private events = new EventEmitter();
+  private running = new Map<string, RunningJob>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private pollAgain = false;
+  private stopping = false;
+
+  constructor(conversationService: ConversationService, config: GenerationJobConfig) {
+    this.conversationService = conversationService;
+    this.config = config;
+    // One listener per open event stream
+    this.events.setMaxListeners(0);
+  }
+
+  /**
+   * Stores the user message and queues its reply. `settings` apply to this
+   * reply only, as with a synchronous send.
+   */
+  async enqueue(
+    ownerId: string,
+    conversationId: string,
+    input: NewMessage,
+    settings: GenerationSettings,
+    correlationId?: string
+  ) {
+    await this.checkActiveLimit(ownerId);
+    const message = await this.conversationService.addMessage(ownerId, conversationId, input);
+    const job = await this.createJob(ownerId, conversationId, message.id, settings, correlationId);
+    return { job, message };
+  }
+
+  /**
+   * Queues the missing reply to a failed or cancelled user message. The reply
+   * gets the settings the message was last sent with.
+   */
+  async retry(ownerId: string, conversationId: string, messageId: string, correlationId?: string) {
+    await this.checkActiveLimit(ownerId);
+    const message = await this.conversationService.prepareRetry(ownerId, conversationId, messageId);
+    const previous = await prisma.generationJob.findFirst({
+      where: { userMessageId: messageId },
+      orderBy: { createdAt: 'desc' },
+      select: { settings: true },
+    });
+
+    const settings = (previous?.settings ?? {}) as GenerationSettings;
+    const job = await this.createJob(ownerId, conversationId, message.id, settings, correlationId);
+    return { job, message };
+  }
+
+  async get(ownerId: string, jobId: string): Promise<JobResponse> {
+    const job = await prisma.generationJob.findFirst({ where: { id: jobId, ownerId } });
+    if (!job) {
+      throw new NotFoundError('Job not found');
+    }
+    return toJobResponse(job);
+  }
+
+  /** Queued and running jobs of a conversation, oldest first, e.g. to reattach after a reload. */
+  async listActive(ownerId: string, conversationId: string): Promise<JobResponse[]> {
+    const jobs = await prisma.generationJob.findMany({
+      where: { ownerId, conversationId, status: { in: ACTIVE_STATUSES } },
+      orderBy: { createdAt: 'asc' },
+    });
+    return jobs.map(toJobResponse);
+  }
+
+  /**
+   * Cancels a queued or running job, and marks its user message cancelled as
+   * an aborted stream does. Finished jobs are returned unchanged.
+   */
+  async cancel(ownerId: string, jobId: string): Promise<JobResponse> {
+    const job = await prisma.generationJob.findFirst({ where: { id: jobId, ownerId } });
+    if (!job) {
+      throw new NotFoundError('Job not found');
+    }
+
+    if (!ACTIVE_STATUSES.includes(job.status as JobStatus)) {
+      return toJobResponse(job);
+    }
+
+    // Conditional on the status read above, so a job finishing meanwhile stays finished
+    const { count } = await prisma.generationJob.updateMany({
+      where: { id: jobId, status: job.status, attempts: job.attempts },
+      data: { status: 'cancelled' },
+    });
+    if (count === 0) {
+      return this.get(ownerId, jobId);
+    }
+
+    const running = this.running.get(jobId);
+    if (running) {
+      running.stopReason = 'cancelled';
+      running.controller.abort();
+      await running.finished;
+    } else if (job.status === 'queued' || this.isStale(job)) {
+      await this.conversationService.cancelTurn(job.userMessageId);
+      await this.finish(job, 'cancelled', {}, 'cancelled');
+    }
+    // Otherwise another process runs it and stops at its next heartbeat
+
+    logger.info('Cancelled generation job', { jobId, previousStatus: job.status });
+    return this.get(ownerId, jobId);
+  }
+
+  /**
+   * Follows a job. Events only come from jobs running in this process, so
+   * callers also poll `get` to see jobs finish elsewhere. `partial` is the
+   * reply so far when the job runs here.
+   */
+  subscribe(jobId: string, listener: (event: JobEvent) => void) {
+    const running = this.running.get(jobId);
+    this.events.on(jobId, listener);
+
+    return {
+      partial: running ? { content: running.content, toolCalls: [...running.toolCalls] } : null,
+      unsubscribe: () => {
+        this.events.off(jobId, listener);
+      },
+    };
+  }
+
+  /** Starts claiming jobs, including the ones a previous process left running. */
+  start() {
+    this.timer = setInterval(() => void this.poll(), this.config.pollIntervalMs);
+    void this.poll();
+  }
+
+  /**
+   * Stops claiming jobs and puts the running ones back in the queue, so the
+   * next process picks them up without waiting for their heartbeat to go stale.
+   */
+  async stop() {
+    this.stopping = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+
+    const running = [...this.running.values()];
+    for (const job of running) {
+      job.stopReason = 'shutdown';
+      job.controller.abort();
+    }
+    await Promise.all(running.map((job) => job.finished));
+  }
+
+  /** Rejects a send before its message is stored when the user has no job slot left. */
+  private async checkActiveLimit(ownerId: string) {
+    const error = await this.activeLimitError(prisma, ownerId);
+    if (error) throw error;
+  }
+
+  private async activeLimitError(
+    client: Pick<Prisma.TransactionClient, 'generationJob'>,
+    ownerId: string
+  ) {
+    const { maxActivePerUser } = this.config;
+    if (maxActivePerUser <= 0) return null;
+
+    const active = await client.generationJob.count({
+      where: { ownerId, status: { in: ACTIVE_STATUSES } },
+    });
+    if (active < maxActivePerUser) return null;
+
+    return new RateLimitedError(
+      `Too many replies in progress: at most ${maxActivePerUser} at a time`,
+      1000
+    );
+  }
+
+  /**
+   * Queues the reply under the per-user lock, counting the user's jobs again:
+   * `checkActiveLimit` ran before the message was stored, and a concurrent send
+   * may have taken the last slot since. The message then fails, to be retried.
+   */
+  private async createJob(
+    ownerId: string,
+    conversationId: string,
+    userMessageId: string,
+    settings: GenerationSettings,
+    correlationId?: string
+  ) {
+    const job = await prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${ENQUEUE_LOCK_CLASS}, hashtext(${ownerId}))`;
+
+      const error = await this.activeLimitError(tx, ownerId);
+      if (error) return error;
+
+      return tx.generationJob.create({
+        data: {
+          conversationId,
+          ownerId,
+          userMessageId,
+          settings: settings as Prisma.InputJsonObject,
+          correlationId,
+        },
+      });
+    });
+    if (job instanceof RateLimitedError) {
+      await this.conversationService.failTurn(userMessageId, job.message);
+      throw job;
+    }
+
+    logger.info('Queued generation job', { correlationId, jobId: job.id, conversationId });
+    void this.poll();
+    return toJobResponse(job);
+  }
+
+  private async poll() {
+    if (this.polling) {
+      this.pollAgain = true;
+      return;
+    }
+
+    this.polling = true;
+    try {
+      do {
+        this.pollAgain = false;
+        while (!this.stopping && this.running.size < this.config.concurrency) {
+          const job = await this.claim();
+          if (!job) break;
+          this.run(job);
+        }
+      } while (this.pollAgain);
+    } catch (error: any) {
+      logger.error('Failed to claim generation jobs', { error: error.message });
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Takes the oldest queued job, or a running one whose worker stopped
+   * sending heartbeats. SKIP LOCKED lets several processes claim at once
+   * without taking the same job.
+   */
+  private async claim(): Promise<GenerationJob | null> {
+    const staleBefore = new Date(Date.now() - this.config.heartbeatMs * STALE_HEARTBEATS);
+    const claimed = await prisma.$queryRaw<GenerationJob[]>`
+      UPDATE "GenerationJob"
+      SET "status" = 'running', "attempts" = "attempts" + 1, "heartbeatAt" = NOW(), "updatedAt" = NOW()
+      WHERE "id" = (
+        SELECT "id" FROM "GenerationJob"
+        WHERE "status" = 'queued' OR ("status" = 'running' AND "heartbeatAt" < ${staleBefore})
+        ORDER BY "createdAt"
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+    return claimed[0] ?? null;
+  }
+
+  private run(job: GenerationJob) {
+    const running: RunningJob = {
+      controller: new AbortController(),
+      stopReason: null,
+      content: '',
+      toolCalls: [],
+      finished: Promise.resolve(),
+    };
+    this.running.set(job.id, running);
+
+    // Jobs run outside any request, so they carry the sending request's
+    // correlation id for logs and upstream calls, and the user to charge, themselves
+    running.finished = runWithRequestContext(
+      { correlationId: job.correlationId ?? job.id, userId: job.ownerId },
+      () => this.execute(job, running)
+    )
+      .catch((error) => {
+        logger.error('Failed to record generation job outcome', { jobId: job.id, error: error.message });
+      })
+      .finally(() => {
+        this.running.delete(job.id);
+        void this.poll();
+      });
+  }
+
+  private async execute(job: GenerationJob, running: RunningJob) {
+    const log = { correlationId: job.correlationId, jobId: job.id, attempt: job.attempts };
+
+    if (job.attempts > this.config.maxAttempts) {
+      logger.error('Generation job interrupted too often, giving up', log);
+      await this.conversationService.failTurn(job.userMessageId, 'Reply generation was interrupted');
+      await this.finish(job, 'failed', {
+        error: {
+          error: 'Reply generation was interrupted',
+          code: 'INTERNAL_ERROR',
+          correlationId: job.correlationId ?? job.id,
+        },
+      });
+      return;
+    }
+
+    // An earlier run may have stored the reply right before its process died
+    if (job.attempts > 1) {
+      const reply = await prisma.message.findFirst({
+        where: { parentId: job.userMessageId, role: 'assistant', createdAt: { gte: job.createdAt } },
+        select: { id: true },
+      });
+      if (reply) {
+        await this.finish(job, 'completed', { replyId: reply.id });
+        return;
+      }
+    }
+
+    logger.info('Running generation job', log);
+    const heartbeat = setInterval(() => void this.beat(job, running), this.config.heartbeatMs);
+
+    try {
+      const { reply } = await this.conversationService.replyTo(
+        job.ownerId,
+        job.conversationId,
+        job.userMessageId,
+        (job.settings ?? {}) as GenerationSettings,
+        {
+          onToken: (token) => {
+            running.content += token;
+            this.events.emit(job.id, { type: 'token', token });
+          },
+          // Text streamed before a tool call isn't part of the reply
+          onToolStep: (step) => {
+            running.content = '';
+            running.toolCalls.push(step);
+            this.events.emit(job.id, { type: 'tool', step });
+          },
+        },
+        running.controller.signal
+      );
+      await this.finish(job, 'completed', { replyId: reply.id });
+    } catch (error: any) {
+      if (running.stopReason === 'shutdown') {
+        // Not the job's fault, so the run doesn't count as an attempt
+        await prisma.generationJob.updateMany({
+          where: { id: job.id, status: 'running' },
+          data: { status: 'queued', heartbeatAt: null, attempts: { decrement: 1 } },
+        });
+        logger.info('Generation job returned to the queue on shutdown', log);
+      } else if (running.stopReason === 'lost') {
+        logger.warn('Generation job was taken over or deleted, stopping', log);
+      } else if (running.stopReason === 'cancelled') {
+        await this.conversationService.cancelTurn(job.userMessageId);
+        await this.finish(job, 'cancelled', {}, 'cancelled');
+      } else {
+        logger.error('Generation job failed', { ...log, error: error.message });
+        await this.finish(job, 'failed', {
+          error: toErrorResponse(error, job.correlationId ?? job.id).body,
+        });
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /** Keeps the claim alive; notices cancellation and jobs claimed by another worker. */
+  private async beat(job: GenerationJob, running: RunningJob) {
+    try {
+      const { count } = await prisma.generationJob.updateMany({
+        where: { id: job.id, status: 'running', attempts: job.attempts },
+        data: { heartbeatAt: new Date() },
+      });
+      if (count > 0 || running.controller.signal.aborted) return;
+
+      const current = await prisma.generationJob.findUnique({
+        where: { id: job.id },
+        select: { status: true },
+      });
+      running.stopReason = current?.status === 'cancelled' ? 'cancelled' : 'lost';
+      running.controller.abort();
+    } catch (error: any) {
+      logger.warn('Generation job heartbeat failed', { jobId: job.id, error: error.message });
+    }
+  }
+
+  /**
+   * Records the outcome, but only while the job is still this run's: `from` is
+   * the status it should have (`cancelled` once `cancel` has marked it), and a
+   * job reclaimed by another worker has moved on to a later attempt.
+   */
+  private async finish(
+    job: GenerationJob,
+    status: JobStatus,
+    result: { replyId?: string; error?: ErrorEnvelope } = {},
+    from: JobStatus = 'running'
+  ) {
+    const { count } = await prisma.generationJob.updateMany({
+      where: { id: job.id, status: from, attempts: job.attempts },
+      data: {
+        status,
+        replyId: result.replyId,
+        error: result.error ? (result.error as unknown as Prisma.InputJsonObject) : undefined,
+        heartbeatAt: null,
+      },
+    });
+    if (count === 0) {
+      logger.warn('Generation job was taken over or deleted before it finished', {
+        jobId: job.id,
+        status,
+      });
+      return;
+    }
+
+    const finished = await prisma.generationJob.findUniqueOrThrow({ where: { id: job.id } });
+    generationJobs.inc({ outcome: status });
+    this.events.emit(job.id, { type: 'done', job: toJobResponse(finished) });
+  }
+
+  private isStale(job: GenerationJob) {
+    return (
+      !job.heartbeatAt ||
+      job.heartbeatAt.getTime() < Date.now() - this.config.heartbeatMs * STALE_HEARTBEATS
+    );
+  }
+}
+
+function toJobResponse(job: GenerationJob): JobResponse {
+  return {
+    id: job.id,
+    conversationId: job.conversationId,
+    userMessageId: job.userMessageId,
+    status: job.status as JobStatus,
+    attempts: job.attempts,
+    replyId: job.replyId,
+    error: (job.error as unknown as ErrorEnvelope | null) ?? null,
+    createdAt: job.createdAt.toISOString(),
+    updatedAt: job.updatedAt.toISOString(),
+  };
+}
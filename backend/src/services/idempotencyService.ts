@@ -0,0 +1,97 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ConflictError, UnprocessableError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+/** Keys can be replayed for this long, then they may be reused. */
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A key still pending after this long belongs to a request that never got an
+ * answer (e.g. the backend restarted), and is given to the next request.
+ */
+const ABANDONED_AFTER_MS = 60 * 1000;
+
+/** A response recorded for an idempotency key. */
+export interface StoredResponse {
+  status: number;
+  location: string | null;
+  body: unknown;
+}
+
+/**
+ * Makes retried requests safe: the first request with a key reserves it and
+ * records its response; repeats of the same request get that response back
+ * instead of running again. Keys are per user.
+ */
+export class IdempotencyService {
+  /**
+   * Reserves `key` for a request. Returns null when the request should run,
+   * or the stored response when it already ran. Throws `UnprocessableError`
+   * when the key was used for a different request, and `ConflictError` while
+   * the first request with the key is still in progress.
+   */
+  async begin(ownerId: string, key: string, fingerprint: string): Promise<StoredResponse | null> {
+    const now = Date.now();
+    await prisma.idempotencyKey.deleteMany({
+      where: {
+        ownerId,
+        OR: [
+          { createdAt: { lt: new Date(now - KEY_TTL_MS) } },
+          { key, status: 'pending', createdAt: { lt: new Date(now - ABANDONED_AFTER_MS) } },
+        ],
+      },
+    });
+
+    try {
+      await prisma.idempotencyKey.create({ data: { ownerId, key, fingerprint } });
+      return null;
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+    }
+
+    const existing = await prisma.idempotencyKey.findUnique({
+      where: { ownerId_key: { ownerId, key } },
+    });
+    // Released since the insert failed; a repeat will find the key free
+    if (!existing) {
+      throw new ConflictError('A request with this Idempotency-Key is still in progress');
+    }
+    if (existing.fingerprint !== fingerprint) {
+      throw new UnprocessableError('Idempotency-Key was already used for a different request');
+    }
+    if (existing.status !== 'complete') {
+      throw new ConflictError('A request with this Idempotency-Key is still in progress');
+    }
+
+    logger.info('Replaying idempotent response', { ownerId, key });
+    return {
+      status: existing.responseStatus!,
+      location: existing.location,
+      body: existing.responseBody,
+    };
+  }
+
+  /** Records the response to replay for `key`. */
+  async complete(ownerId: string, key: string, response: StoredResponse) {
+    await prisma.idempotencyKey.update({
+      where: { ownerId_key: { ownerId, key } },
+      data: {
+        status: 'complete',
+        responseStatus: response.status,
+        location: response.location,
+        responseBody: response.body as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  /** Frees `key` after a request that failed, so it can be sent again. */
+  async release(ownerId: string, key: string) {
+    await prisma.idempotencyKey.deleteMany({
+      where: { ownerId, key, status: 'pending' },
+    });
+  }
+}
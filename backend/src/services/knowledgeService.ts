@@ -0,0 +1,249 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { LlmAdapter } from './llm';
+import { chunkText } from './textChunker';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { UploadedFile, decodeTextFile } from '../utils/textFile';
+
+const prisma = new PrismaClient();
+
+// Texts per embedding request
+const EMBED_BATCH_SIZE = 16;
+
+// Characters of a chunk stored with a citation, for hover previews
+const EXCERPT_LENGTH = 200;
+
+export interface KnowledgeConfig {
+  /** Chunks retrieved per user turn. */
+  topK: number;
+  /** Cosine similarity below which a chunk isn't used, from -1 to 1. */
+  minScore: number;
+  /** Target chunk length and overlap, in characters. */
+  chunkSize: number;
+  chunkOverlap: number;
+  /** Largest accepted document, in bytes. */
+  maxBytes: number;
+}
+
+export interface RetrievedChunk {
+  id: string;
+  documentId: string;
+  title: string;
+  ordinal: number;
+  content: string;
+  score: number;
+}
+
+/** A source given to the model, stored on the assistant reply. */
+export interface Citation {
+  /** The `[n]` the model was told to cite this source as. */
+  index: number;
+  documentId: string;
+  chunkId: string;
+  title: string;
+  ordinal: number;
+  excerpt: string;
+  score: number;
+}
+
+/**
+ * Per-user document collection for retrieval-augmented replies. Documents
+ * are split into chunks, embedded through the LLM adapter and stored in a
+ * pgvector column; each user turn retrieves the closest chunks by cosine
+ * distance.
+ */
+export class KnowledgeService {
+  private llmAdapter: LlmAdapter;
+  readonly config: KnowledgeConfig;
+
+  constructor(llmAdapter: LlmAdapter, config: KnowledgeConfig) {
+    this.llmAdapter = llmAdapter;
+    this.config = config;
+  }
+
+  async addDocument(ownerId: string, file: UploadedFile, title?: string) {
+    const content = decodeTextFile(file);
+    const filename = path.basename(file.originalname);
+    const chunks = chunkText(content, {
+      size: this.config.chunkSize,
+      overlap: this.config.chunkOverlap,
+    });
+    if (chunks.length === 0) {
+      throw new ValidationError(`${filename} is empty`);
+    }
+
+    // Embed before opening the transaction; this is the slow part
+    const embeddings: number[][] = [];
+    let embeddingModel = '';
+    for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+      const result = await this.llmAdapter.embed({ texts: chunks.slice(i, i + EMBED_BATCH_SIZE) });
+      embeddings.push(...result.embeddings);
+      embeddingModel = modelKey(result.provider, result.model);
+    }
+
+    const document = await prisma.$transaction(async (tx) => {
+      const created = await tx.knowledgeDocument.create({
+        data: {
+          ownerId,
+          title: title?.trim() || filename,
+          filename,
+          size: file.size,
+          embeddingModel,
+        },
+      });
+
+      // Prisma can't write vector columns, so chunks are inserted directly
+      for (const [ordinal, chunk] of chunks.entries()) {
+        await tx.$executeRaw`
+          INSERT INTO "KnowledgeChunk" ("id", "documentId", "ordinal", "content", "embedding")
+          VALUES (${randomUUID()}, ${created.id}, ${ordinal}, ${chunk}, ${toVector(embeddings[ordinal])}::vector)
+        `;
+      }
+      return created;
+    }, { timeout: 30000 });
+
+    logger.info('Added knowledge document', {
+      id: document.id,
+      chunks: chunks.length,
+      embeddingModel,
+    });
+    return { ...toDocumentResponse(document), chunkCount: chunks.length };
+  }
+
+  async listDocuments(ownerId: string) {
+    const documents = await prisma.knowledgeDocument.findMany({
+      where: { ownerId },
+      orderBy: { createdAt: 'desc' },
+      include: { _count: { select: { chunks: true } } },
+    });
+
+    return documents.map((doc) => ({ ...toDocumentResponse(doc), chunkCount: doc._count.chunks }));
+  }
+
+  async deleteDocument(ownerId: string, id: string) {
+    const { count } = await prisma.knowledgeDocument.deleteMany({
+      where: { id, ownerId },
+    });
+
+    if (count === 0) {
+      throw new NotFoundError('Document not found');
+    }
+
+    logger.info('Deleted knowledge document', { id });
+  }
+
+  async getChunk(ownerId: string, documentId: string, chunkId: string) {
+    const chunk = await prisma.knowledgeChunk.findFirst({
+      where: { id: chunkId, documentId, document: { ownerId } },
+      select: {
+        id: true,
+        documentId: true,
+        ordinal: true,
+        content: true,
+        document: { select: { title: true } },
+      },
+    });
+
+    if (!chunk) {
+      throw new NotFoundError('Chunk not found');
+    }
+
+    return {
+      id: chunk.id,
+      documentId: chunk.documentId,
+      title: chunk.document.title,
+      ordinal: chunk.ordinal,
+      content: chunk.content,
+    };
+  }
+
+  /**
+   * The `topK` chunks closest to `query` among the owner's documents that
+   * were embedded by the current model. Users without documents cost no
+   * embedding call.
+   */
+  async retrieve(ownerId: string, query: string, signal?: AbortSignal): Promise<RetrievedChunk[]> {
+    const documentCount = await prisma.knowledgeDocument.count({ where: { ownerId } });
+    if (documentCount === 0) {
+      return [];
+    }
+
+    const result = await this.llmAdapter.embed({ texts: [query], signal });
+    const vector = toVector(result.embeddings[0]);
+
+    const chunks = await prisma.$queryRaw<RetrievedChunk[]>`
+      SELECT c."id", c."documentId", d."title", c."ordinal", c."content",
+             1 - (c."embedding" <=> ${vector}::vector) AS "score"
+      FROM "KnowledgeChunk" c
+      JOIN "KnowledgeDocument" d ON d."id" = c."documentId"
+      WHERE d."ownerId" = ${ownerId} AND d."embeddingModel" = ${modelKey(result.provider, result.model)}
+      ORDER BY c."embedding" <=> ${vector}::vector
+      LIMIT ${this.config.topK}
+    `;
+
+    return chunks
+      .map((chunk) => ({ ...chunk, score: Number(chunk.score) }))
+      .filter((chunk) => chunk.score >= this.config.minScore);
+  }
+}
+
+/**
+ * System message giving the model the retrieved chunks as numbered sources,
+ * or null when nothing was retrieved.
+ */
+export function formatKnowledge(chunks: RetrievedChunk[]): string | null {
+  if (chunks.length === 0) return null;
+
+  const sources = chunks.map(
+    (chunk, i) => `[${i + 1}] ${chunk.title} (part ${chunk.ordinal + 1})\n${chunk.content}`
+  );
+  return [
+    'Answer using the following excerpts from the user\'s documents when they are relevant. ' +
+      'Cite the excerpts you use with their number in square brackets, e.g. [1]. ' +
+      'If they don\'t contain the answer, say so rather than guessing.',
+    ...sources,
+  ].join('\n\n');
+}
+
+export function toCitations(chunks: RetrievedChunk[]): Citation[] {
+  return chunks.map((chunk, i) => ({
+    index: i + 1,
+    documentId: chunk.documentId,
+    chunkId: chunk.id,
+    title: chunk.title,
+    ordinal: chunk.ordinal,
+    excerpt:
+      chunk.content.length > EXCERPT_LENGTH
+        ? `${chunk.content.slice(0, EXCERPT_LENGTH).trimEnd()}…`
+        : chunk.content,
+    score: Math.round(chunk.score * 1000) / 1000,
+  }));
+}
+
+function toDocumentResponse(doc: {
+  id: string;
+  title: string;
+  filename: string;
+  size: number;
+  createdAt: Date;
+}) {
+  return {
+    id: doc.id,
+    title: doc.title,
+    filename: doc.filename,
+    size: doc.size,
+    createdAt: doc.createdAt.toISOString(),
+  };
+}
+
+// Same model name from two providers doesn't mean the same vectors
+function modelKey(provider: string | undefined, model: string): string {
+  return provider ? `${provider}/${model}` : model;
+}
+
+// pgvector's text input format
+function toVector(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
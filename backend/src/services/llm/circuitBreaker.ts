@@ -0,0 +1,84 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerConfig {
+  /** Consecutive failures that open the circuit. */
+  failureThreshold: number;
+  /** How long an open circuit rejects calls before allowing a trial call. */
+  resetMs: number;
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** When an open circuit will let the next trial call through. */
+  retryAt?: string;
+}
+
+/**
+ * Per-provider circuit breaker.
+ *
+ * - closed: calls go through; `failureThreshold` consecutive failures open it
+ * - open: calls are rejected without touching the provider until `resetMs` has passed
+ * - half-open: a single trial call goes through; success closes the circuit,
+ *   failure opens it for another `resetMs`
+ */
+export class CircuitBreaker {
+  private config: CircuitBreakerConfig;
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(config: CircuitBreakerConfig) {
+    this.config = config;
+  }
+
+  state(now: number = Date.now()): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return now - this.openedAt >= this.config.resetMs ? 'half-open' : 'open';
+  }
+
+  /** Whether a call may go to the provider now. Claims the trial slot when half-open. */
+  tryAcquire(now: number = Date.now()): boolean {
+    switch (this.state(now)) {
+      case 'closed':
+        return true;
+      case 'open':
+        return false;
+      case 'half-open':
+        if (this.trialInFlight) return false;
+        this.trialInFlight = true;
+        return true;
+    }
+  }
+
+  recordSuccess() {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(now: number = Date.now()) {
+    this.consecutiveFailures++;
+    if (this.trialInFlight || this.consecutiveFailures >= this.config.failureThreshold) {
+      this.openedAt = now;
+    }
+    this.trialInFlight = false;
+  }
+
+  /** Gives back a trial slot without judging the provider, e.g. on caller abort. */
+  release() {
+    this.trialInFlight = false;
+  }
+
+  snapshot(now: number = Date.now()): CircuitSnapshot {
+    const state = this.state(now);
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      retryAt:
+        state === 'open' && this.openedAt !== null
+          ? new Date(this.openedAt + this.config.resetMs).toISOString()
+          : undefined,
+    };
+  }
+}
@@ -1,12 +1,35 @@
-import { LlmAdapter, LlmConfig } from './types';
+import { LlmAdapter, LlmConfig, LlmProvider } from './types';
 import { MockLlmAdapter } from './mockAdapter';
 import { OllamaLlmAdapter } from './ollamaAdapter';
+import { OpenAiLlmAdapter } from './openaiAdapter';
+import { InstrumentedLlmAdapter } from './instrumented';
+import { FallbackLlmAdapter } from './fallbackAdapter';
 import { logger } from '../../utils/logger';
 
-export function createLlmAdapter(config: LlmConfig): LlmAdapter {
-  logger.info(`Creating LLM adapter for provider: ${config.provider}`);
+/**
+ * Builds the configured provider followed by any fallbacks, each instrumented
+ * and behind its own circuit breaker.
+ */
+export function createLlmAdapter(config: LlmConfig): FallbackLlmAdapter {
+  const chain = [config.provider, ...(config.fallbackProviders ?? [])].filter(
+    (provider, i, all) => all.indexOf(provider) === i
+  );
+  logger.info(`Creating LLM adapter for providers: ${chain.join(' -> ')}`);
 
-  switch (config.provider) {
+  return new FallbackLlmAdapter(
+    chain.map((provider) => ({
+      name: provider,
+      adapter: new InstrumentedLlmAdapter(createProviderAdapter(config, provider), provider),
+    })),
+    {
+      failureThreshold: config.circuitFailureThreshold ?? 3,
+      resetMs: config.circuitResetMs ?? 30000,
+    }
+  );
+}
+
+function createProviderAdapter(config: LlmConfig, provider: LlmProvider): LlmAdapter {
+  switch (provider) {
     case 'mock':
       if (!config.mockBaseUrl) {
         throw new Error('MOCK_LLM_BASE_URL is required for mock provider');
@@ -25,12 +48,33 @@ export function createLlmAdapter(config: LlmConfig): LlmAdapter {
       return new OllamaLlmAdapter({
         baseUrl: config.ollamaBaseUrl,
         model: config.ollamaModel,
+        temperature: config.ollamaTemperature,
+        numCtx: config.ollamaNumCtx,
+        stop: config.ollamaStop,
+        embedModel: config.ollamaEmbedModel,
+        timeout: config.timeout,
+        maxRetries: config.maxRetries,
+        retryDelayMs: config.retryDelayMs,
+      });
+
+    case 'openai':
+      if (!config.openaiBaseUrl || !config.openaiModel) {
+        throw new Error('OPENAI_BASE_URL and OPENAI_MODEL are required for openai provider');
+      }
+      return new OpenAiLlmAdapter({
+        baseUrl: config.openaiBaseUrl,
+        apiKey: config.openaiApiKey,
+        model: config.openaiModel,
+        temperature: config.openaiTemperature,
+        topP: config.openaiTopP,
+        maxTokens: config.openaiMaxTokens,
+        embedModel: config.openaiEmbedModel,
         timeout: config.timeout,
         maxRetries: config.maxRetries,
         retryDelayMs: config.retryDelayMs,
       });
 
     default:
-      throw new Error(`Unknown LLM provider: ${config.provider}`);
+      throw new Error(`Unknown LLM provider: ${provider}`);
   }
 }
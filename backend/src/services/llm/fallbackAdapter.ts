@@ -0,0 +1,175 @@
+import {
+  CompletionInput,
+  CompletionResult,
+  EmbeddingInput,
+  EmbeddingResult,
+  LlmAdapter,
+  ModelInfo,
+} from "./types";
+import { CircuitBreaker, CircuitBreakerConfig, CircuitSnapshot } from "./circuitBreaker";
+import { UpstreamError } from "../../utils/errors";
+import { logger } from "../../utils/logger";
+
+export interface ProviderHealth extends CircuitSnapshot {
+  provider: string;
+}
+
+interface Provider {
+  name: string;
+  adapter: LlmAdapter;
+  breaker: CircuitBreaker;
+}
+
+/**
+ * Tries providers in order, each behind its own circuit breaker. A provider
+ * whose circuit is open is skipped without a request, so a dead Ollama costs
+ * one fast rejection instead of three timeouts once its circuit has opened.
+ */
+export class FallbackLlmAdapter implements LlmAdapter {
+  private providers: Provider[];
+
+  constructor(
+    providers: { name: string; adapter: LlmAdapter }[],
+    breakerConfig: CircuitBreakerConfig
+  ) {
+    this.providers = providers.map((p) => ({
+      ...p,
+      breaker: new CircuitBreaker(breakerConfig),
+    }));
+  }
+
+  complete(input: CompletionInput): Promise<CompletionResult> {
+    return this.run(input, (adapter, providerInput) => adapter.complete(providerInput));
+  }
+
+  stream(
+    input: CompletionInput,
+    onToken: (token: string) => void
+  ): Promise<CompletionResult> {
+    let emitted = false;
+    return this.run(
+      input,
+      (adapter, providerInput) =>
+        adapter.stream(providerInput, (token) => {
+          emitted = true;
+          onToken(token);
+        }),
+      // A second provider would start the reply over after the first one's tokens
+      () => !emitted
+    );
+  }
+
+  /**
+   * Models of every provider in the chain. Providers that are unreachable or
+   * whose circuit is open are left out rather than failing the whole list.
+   */
+  async listModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+    const results = await Promise.allSettled(
+      this.providers
+        .filter((p) => p.breaker.state() !== "open")
+        .map((p) => p.adapter.listModels(signal))
+    );
+
+    return results.flatMap((result) => {
+      if (result.status === "fulfilled") return result.value;
+      logger.warn("Failed to list models", { error: (result.reason as Error).message });
+      return [];
+    });
+  }
+
+  /**
+   * Embeddings always come from the primary provider: vectors from another
+   * model can't be compared with the stored ones, so there is no fallback.
+   */
+  async embed(input: EmbeddingInput): Promise<EmbeddingResult> {
+    const primary = this.providers[0];
+    if (!primary.breaker.tryAcquire()) {
+      throw new UpstreamError(`Embedding provider ${primary.name} is unavailable (circuit open)`);
+    }
+
+    try {
+      const result = await primary.adapter.embed(input);
+      primary.breaker.recordSuccess();
+      return { ...result, provider: primary.name };
+    } catch (error) {
+      if (input.signal?.aborted) {
+        primary.breaker.release();
+      } else if (isProviderFault(error)) {
+        primary.breaker.recordFailure();
+      } else {
+        primary.breaker.recordSuccess();
+      }
+      throw error;
+    }
+  }
+
+  health(): ProviderHealth[] {
+    return this.providers.map((p) => ({ provider: p.name, ...p.breaker.snapshot() }));
+  }
+
+  private async run(
+    input: CompletionInput,
+    call: (adapter: LlmAdapter, providerInput: CompletionInput) => Promise<CompletionResult>,
+    canFallBack: () => boolean = () => true
+  ): Promise<CompletionResult> {
+    let lastError: unknown = null;
+
+    for (const provider of this.ordered(input.provider)) {
+      if (!provider.breaker.tryAcquire()) {
+        logger.warn(`Skipping LLM provider ${provider.name}: circuit open`);
+        continue;
+      }
+
+      try {
+        // A chosen model only applies to its own provider; the others use their default
+        const providerInput =
+          provider.name === input.provider ? input : { ...input, model: undefined };
+        const result = await call(provider.adapter, providerInput);
+        provider.breaker.recordSuccess();
+        return { ...result, provider: provider.name };
+      } catch (error) {
+        if (input.signal?.aborted) {
+          provider.breaker.release();
+          throw error;
+        }
+
+        if (isProviderFault(error)) {
+          provider.breaker.recordFailure();
+        } else {
+          // The provider is up and rejected this request; its health is fine
+          provider.breaker.recordSuccess();
+        }
+        lastError = error;
+        logger.warn(`LLM provider ${provider.name} failed`, {
+          error: (error as Error).message,
+          circuit: provider.breaker.state(),
+        });
+
+        if (!canFallBack()) {
+          throw error;
+        }
+      }
+    }
+
+    // Every provider failed or was skipped; surface the last real failure
+    throw lastError ?? new UpstreamError("All LLM providers are unavailable");
+  }
+
+  /** The configured order, with `preferred` moved to the front. */
+  private ordered(preferred?: string): Provider[] {
+    const first = this.providers.find((p) => p.name === preferred);
+    return first ? [first, ...this.providers.filter((p) => p !== first)] : this.providers;
+  }
+}
+
+/**
+ * Timeouts, connection failures, 5xx and 429 count against a provider's
+ * circuit. Other 4xx answers (e.g. a prompt over its context limit) say
+ * nothing about its health.
+ */
+function isProviderFault(error: unknown): boolean {
+  if (!(error instanceof UpstreamError) || error.upstreamStatus === undefined) {
+    return true;
+  }
+  return error.upstreamStatus >= 500 || error.upstreamStatus === 429;
+}
@@ -2,3 +2,8 @@ export * from './types';
 export * from './factory';
 export * from './mockAdapter';
 export * from './ollamaAdapter';
+export * from './openaiAdapter';
+export * from './instrumented';
+export * from './metered';
+export * from './circuitBreaker';
+export * from './fallbackAdapter';
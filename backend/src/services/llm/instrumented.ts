@@ -0,0 +1,72 @@
+import {
+  CompletionInput,
+  CompletionResult,
+  EmbeddingInput,
+  EmbeddingResult,
+  LlmAdapter,
+  ModelInfo,
+} from './types';
+import { UpstreamTimeoutError } from '../../utils/errors';
+import { llmCallDuration, llmTokens } from '../../utils/metrics';
+
+/**
+ * Wraps an adapter to record call latency, outcome and reported token usage.
+ * Retries and timeouts of individual attempts are counted in `fetchWithRetry`.
+ */
+export class InstrumentedLlmAdapter implements LlmAdapter {
+  constructor(private inner: LlmAdapter, private provider: string) {}
+
+  async complete(input: CompletionInput): Promise<CompletionResult> {
+    const result = await this.observe('complete', input.signal, () => this.inner.complete(input));
+    this.recordUsage(result);
+    return result;
+  }
+
+  async stream(input: CompletionInput, onToken: (token: string) => void): Promise<CompletionResult> {
+    const result = await this.observe('stream', input.signal, () =>
+      this.inner.stream(input, onToken)
+    );
+    this.recordUsage(result);
+    return result;
+  }
+
+  embed(input: EmbeddingInput): Promise<EmbeddingResult> {
+    return this.observe('embed', input.signal, () => this.inner.embed(input));
+  }
+
+  listModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+    return this.inner.listModels(signal);
+  }
+
+  private async observe<T>(
+    type: 'complete' | 'stream' | 'embed',
+    signal: AbortSignal | undefined,
+    call: () => Promise<T>
+  ): Promise<T> {
+    const end = llmCallDuration.startTimer({ provider: this.provider, type });
+
+    try {
+      const result = await call();
+      end({ outcome: 'success' });
+      return result;
+    } catch (error: any) {
+      end({ outcome: outcomeOf(error, signal) });
+      throw error;
+    }
+  }
+
+  private recordUsage({ usage }: CompletionResult) {
+    if (usage?.promptTokens) {
+      llmTokens.inc({ provider: this.provider, kind: 'prompt' }, usage.promptTokens);
+    }
+    if (usage?.completionTokens) {
+      llmTokens.inc({ provider: this.provider, kind: 'completion' }, usage.completionTokens);
+    }
+  }
+}
+
+function outcomeOf(error: any, signal?: AbortSignal): string {
+  if (signal?.aborted) return 'cancelled';
+  if (error instanceof UpstreamTimeoutError) return 'timeout';
+  return 'error';
+}
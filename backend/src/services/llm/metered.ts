@@ -0,0 +1,100 @@
+import {
+  CompletionInput,
+  CompletionPurpose,
+  CompletionResult,
+  EmbeddingInput,
+  EmbeddingResult,
+  LlmAdapter,
+  ModelInfo,
+  TokenUsage,
+} from './types';
+import { getRequestUserId } from '../../utils/requestContext';
+import { logger } from '../../utils/logger';
+
+export type UsagePurpose = CompletionPurpose | 'embedding';
+
+/** One call to charge to a user. */
+export interface UsageEntry {
+  userId: string;
+  purpose: UsagePurpose;
+  outcome: 'succeeded' | 'failed' | 'cancelled';
+  provider?: string;
+  model?: string;
+  usage?: TokenUsage;
+}
+
+export interface UsageLedger {
+  record(entry: UsageEntry): Promise<void>;
+}
+
+/**
+ * Wraps an adapter to charge every call to the user of the current request
+ * context (see `setRequestUser`), including calls that fail or are cancelled.
+ * Calls made for no user are not recorded. Goes outside the fallback chain, so
+ * a call counts once however many providers it tried.
+ */
+export class MeteredLlmAdapter implements LlmAdapter {
+  constructor(private inner: LlmAdapter, private ledger: UsageLedger) {}
+
+  complete(input: CompletionInput): Promise<CompletionResult> {
+    return this.meter(input.purpose ?? 'reply', input, () => this.inner.complete(input));
+  }
+
+  stream(input: CompletionInput, onToken: (token: string) => void): Promise<CompletionResult> {
+    return this.meter(input.purpose ?? 'reply', input, () => this.inner.stream(input, onToken));
+  }
+
+  embed(input: EmbeddingInput): Promise<EmbeddingResult> {
+    return this.meter('embedding', input, () => this.inner.embed(input));
+  }
+
+  listModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+    return this.inner.listModels(signal);
+  }
+
+  private async meter<T extends CompletionResult | EmbeddingResult>(
+    purpose: UsagePurpose,
+    input: { signal?: AbortSignal; provider?: string; model?: string },
+    call: () => Promise<T>
+  ): Promise<T> {
+    const userId = getRequestUserId();
+    if (!userId) return call();
+
+    let result: T;
+    try {
+      result = await call();
+    } catch (error) {
+      await this.record({
+        userId,
+        purpose,
+        outcome: input.signal?.aborted ? 'cancelled' : 'failed',
+        provider: input.provider,
+        model: input.model,
+      });
+      throw error;
+    }
+
+    await this.record({
+      userId,
+      purpose,
+      outcome: 'succeeded',
+      provider: result.provider,
+      model: result.model,
+      usage: 'usage' in result ? result.usage : undefined,
+    });
+    return result;
+  }
+
+  /** A lost record only undercounts; it never fails the call. */
+  private async record(entry: UsageEntry) {
+    try {
+      await this.ledger.record(entry);
+    } catch (error) {
+      logger.error('Failed to record LLM usage', {
+        userId: entry.userId,
+        purpose: entry.purpose,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -1,5 +1,16 @@
-import { LlmAdapter, Message } from "./types";
-import { logger } from "../../utils/logger";
+import {
+  CompletionInput,
+  CompletionResult,
+  EmbeddingInput,
+  EmbeddingResult,
+  LlmAdapter,
+  Message,
+  ModelInfo,
+} from "./types";
+import { fetchWithRetry, RetryOptions } from "./retry";
+import { readLines } from "./stream";
+import { UpstreamError } from "../../utils/errors";
+import { propagationHeaders } from "../../utils/requestContext";
 
 export class MockLlmAdapter implements LlmAdapter {
   private baseUrl: string;
@@ -19,67 +30,120 @@ export class MockLlmAdapter implements LlmAdapter {
     this.retryDelayMs = config.retryDelayMs || 1000;
   }
 
-  async complete(input: {
-    messages: Message[];
-  }): Promise<{ completion: string }> {
-    const content = input.messages
-      .map((m) => `${m.role}: ${m.content}`)
-      .join("\n");
-
-    return this.fetchWithRetry(content);
-  }
-
-  private async fetchWithRetry(
-    content: string,
-    attempt: number = 0
-  ): Promise<{ completion: string }> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-    try {
-      logger.info(
-        `Calling mock LLM (attempt ${attempt + 1}/${this.maxRetries + 1})`
-      );
+  // The mock server has no tool support, so `input.tools` is ignored
+  async complete(input: CompletionInput): Promise<CompletionResult> {
+    const content = this.formatPrompt(input.messages);
 
+    return fetchWithRetry(async ({ signal }) => {
       const response = await fetch(`${this.baseUrl}/complete`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...propagationHeaders(),
         },
         body: JSON.stringify({ content }),
-        signal: controller.signal,
+        signal,
       });
 
-      clearTimeout(timeoutId);
-
       if (!response.ok) {
-        throw new Error(`Mock LLM returned ${response.status}`);
+        throw new UpstreamError(`Mock LLM returned ${response.status}`, {
+          upstreamStatus: response.status,
+        });
       }
 
       const data = (await response.json()) as { completion: string };
-      return { completion: data.completion };
-    } catch (error: any) {
-      clearTimeout(timeoutId);
-
-      const isTimeout = error.name === "AbortError";
-      const is500Error = error.message?.includes("500");
-
-      if ((isTimeout || is500Error) && attempt < this.maxRetries) {
-        const delay = this.retryDelayMs * Math.pow(2, attempt);
-        logger.warn(
-          `LLM call failed (${
-            isTimeout ? "timeout" : "500 error"
-          }), retrying in ${delay}ms...`
+      return { completion: data.completion, model: "mock" };
+    }, this.retryOptions(input.signal));
+  }
+
+  async stream(
+    input: CompletionInput,
+    onToken: (token: string) => void
+  ): Promise<CompletionResult> {
+    const content = this.formatPrompt(input.messages);
+    let completion = "";
+
+    return fetchWithRetry(
+      async ({ signal, touch }) => {
+        const response = await fetch(`${this.baseUrl}/complete/stream`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...propagationHeaders(),
+          },
+          body: JSON.stringify({ content }),
+          signal,
+        });
+
+        if (!response.ok) {
+          throw new UpstreamError(`Mock LLM returned ${response.status}`, {
+            upstreamStatus: response.status,
+          });
+        }
+
+        await readLines(
+          response.body,
+          (line) => {
+            const data = JSON.parse(line) as { token?: string; done?: boolean };
+            if (data.token) {
+              completion += data.token;
+              onToken(data.token);
+            }
+          },
+          touch
         );
 
-        await new Promise((resolve) => setTimeout(resolve, delay));
-        return this.fetchWithRetry(content, attempt + 1);
+        return { completion, model: "mock" };
+      },
+      {
+        ...this.retryOptions(input.signal),
+        // Once tokens have been forwarded a retry would duplicate them
+        canRetry: () => completion.length === 0,
       }
+    );
+  }
+
+  // The mock server has a single model and ignores generation parameters
+  async listModels(): Promise<ModelInfo[]> {
+    return [{ provider: "mock", model: "mock", isDefault: true }];
+  }
 
-      logger.error("LLM call failed after all retries", {
-        error: error.message,
+  /** Deterministic bag-of-words vectors from the mock server's `/embed`. */
+  async embed(input: EmbeddingInput): Promise<EmbeddingResult> {
+    return fetchWithRetry(async ({ signal }) => {
+      const response = await fetch(`${this.baseUrl}/embed`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...propagationHeaders(),
+        },
+        body: JSON.stringify({ texts: input.texts }),
+        signal,
       });
-      throw error;
-    }
+
+      if (!response.ok) {
+        throw new UpstreamError(`Mock LLM returned ${response.status}`, {
+          upstreamStatus: response.status,
+        });
+      }
+
+      const data = (await response.json()) as { embeddings: number[][] };
+      return { embeddings: data.embeddings, model: "mock-embed" };
+    }, this.retryOptions(input.signal));
+  }
+
+  private formatPrompt(messages: Message[]): string {
+    return messages.map((m) => `${m.role}: ${m.content}`).join("\n");
+  }
+
+  private retryOptions(signal?: AbortSignal): RetryOptions {
+    return {
+      label: "mock LLM",
+      provider: "mock",
+      timeout: this.timeout,
+      maxRetries: this.maxRetries,
+      retryDelayMs: this.retryDelayMs,
+      signal,
+    };
   }
 }
@@ -1,95 +1,284 @@
-import { LlmAdapter, Message } from "./types";
-import { logger } from "../../utils/logger";
+import {
+  CompletionInput,
+  CompletionResult,
+  EmbeddingInput,
+  EmbeddingResult,
+  LlmAdapter,
+  Message,
+  ModelInfo,
+  TokenUsage,
+  ToolCall,
+} from "./types";
+import { fetchWithRetry, RetryOptions, withTimeout } from "./retry";
+import { readLines } from "./stream";
+import { UpstreamError } from "../../utils/errors";
+import { propagationHeaders } from "../../utils/requestContext";
+
+interface OllamaToolCall {
+  function: { name: string; arguments: Record<string, unknown> };
+}
+
+/** Shape shared by `/api/chat` responses and the final chunk of a stream. */
+interface OllamaChatResponse {
+  model?: string;
+  message?: { role: string; content: string; tool_calls?: OllamaToolCall[] };
+  done?: boolean;
+  error?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+function toTokenUsage(data: OllamaChatResponse): TokenUsage {
+  return {
+    promptTokens: data.prompt_eval_count,
+    completionTokens: data.eval_count,
+  };
+}
+
+// Ollama doesn't return call ids; results are matched to calls by position
+function toToolCalls(calls: OllamaToolCall[] | undefined): ToolCall[] | undefined {
+  if (!calls?.length) return undefined;
+  return calls.map((call, i) => ({
+    id: `call_${Date.now().toString(36)}_${i}`,
+    name: call.function.name,
+    arguments: call.function.arguments ?? {},
+  }));
+}
+
+function toOllamaMessage(message: Message) {
+  return {
+    role: message.role,
+    content: message.content,
+    tool_calls: message.toolCalls?.map((call) => ({
+      function: { name: call.name, arguments: call.arguments },
+    })),
+  };
+}
 
 export class OllamaLlmAdapter implements LlmAdapter {
   private baseUrl: string;
   private model: string;
+  private embedModel: string;
+  private options: {
+    temperature?: number;
+    num_ctx?: number;
+    stop?: string[];
+  };
   private timeout: number;
   private maxRetries: number;
   private retryDelayMs: number;
+  // Models that rejected a request with tools; they are called without them
+  private modelsWithoutTools = new Set<string>();
 
   constructor(config: {
     baseUrl: string;
     model: string;
+    embedModel?: string;
+    temperature?: number;
+    numCtx?: number;
+    stop?: string[];
     timeout?: number;
     maxRetries?: number;
     retryDelayMs?: number;
   }) {
     this.baseUrl = config.baseUrl;
     this.model = config.model;
+    this.embedModel = config.embedModel || "nomic-embed-text";
+    this.options = {
+      temperature: config.temperature,
+      num_ctx: config.numCtx,
+      stop: config.stop?.length ? config.stop : undefined,
+    };
     this.timeout = config.timeout || 12000;
     this.maxRetries = config.maxRetries || 2;
     this.retryDelayMs = config.retryDelayMs || 1000;
   }
 
-  async complete(input: {
-    messages: Message[];
-  }): Promise<{ completion: string }> {
-    return this.fetchWithRetry(input.messages);
-  }
+  async complete(input: CompletionInput): Promise<CompletionResult> {
+    return fetchWithRetry(async ({ signal }) => {
+      const response = await this.chat(input, false, signal);
 
-  private async fetchWithRetry(
-    messages: Message[],
-    attempt: number = 0
-  ): Promise<{ completion: string }> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-    try {
-      logger.info(
-        `Calling Ollama LLM (attempt ${attempt + 1}/${this.maxRetries + 1})`
-      );
-
-      const response = await fetch(`${this.baseUrl}/api/generate`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: this.model,
-          prompt: messages.map((m) => `${m.role}: ${m.content}`).join("\n"),
-          stream: false,
-        }),
-        signal: controller.signal,
-      });
+      const data = (await response.json()) as OllamaChatResponse;
+      const completion = data.message?.content ?? "";
+      const toolCalls = toToolCalls(data.message?.tool_calls);
+      if (!completion && !toolCalls) {
+        throw new UpstreamError("Ollama response missing message content");
+      }
+      return {
+        completion,
+        toolCalls,
+        usage: toTokenUsage(data),
+        model: data.model ?? this.modelFor(input),
+      };
+    }, this.retryOptions(input.signal));
+  }
 
-      clearTimeout(timeoutId);
+  async stream(
+    input: CompletionInput,
+    onToken: (token: string) => void
+  ): Promise<CompletionResult> {
+    let completion = "";
+    let usage: TokenUsage | undefined;
 
-      if (!response.ok) {
-        throw new Error(`Ollama returned ${response.status}`);
-      }
+    return fetchWithRetry(
+      async ({ signal, touch }) => {
+        const response = await this.chat(input, true, signal);
+        let toolCalls: ToolCall[] | undefined;
 
-      const data = (await response.json()) as {
-        response?: string;
-        completion?: string;
-      };
-      const completion: string | undefined = data.response || data.completion;
-      if (!completion) {
-        throw new Error("Ollama response missing completion field");
-      }
-      return { completion };
-    } catch (error: any) {
-      clearTimeout(timeoutId);
-
-      const isTimeout = error.name === "AbortError";
-      const is500Error = error.message?.includes("500");
-
-      if ((isTimeout || is500Error) && attempt < this.maxRetries) {
-        const delay = this.retryDelayMs * Math.pow(2, attempt);
-        logger.warn(
-          `Ollama call failed (${
-            isTimeout ? "timeout" : "500 error"
-          }), retrying in ${delay}ms...`
+        await readLines(
+          response.body,
+          (line) => {
+            const data = JSON.parse(line) as OllamaChatResponse;
+            if (data.error) {
+              throw new UpstreamError(`Ollama stream error: ${data.error}`);
+            }
+            // Tool calls arrive whole, in a chunk of their own
+            if (data.message?.tool_calls?.length) {
+              toolCalls = [...(toolCalls ?? []), ...toToolCalls(data.message.tool_calls)!];
+            }
+            const token = data.message?.content;
+            if (token) {
+              completion += token;
+              onToken(token);
+            }
+            // Token counts only arrive on the final chunk
+            if (data.done) {
+              usage = toTokenUsage(data);
+            }
+          },
+          touch
         );
 
-        await new Promise((resolve) => setTimeout(resolve, delay));
-        return this.fetchWithRetry(messages, attempt + 1);
+        if (!completion && !toolCalls) {
+          throw new UpstreamError("Ollama response missing message content");
+        }
+        return { completion, toolCalls, usage, model: this.modelFor(input) };
+      },
+      {
+        ...this.retryOptions(input.signal),
+        // Once tokens have been forwarded a retry would duplicate them
+        canRetry: () => completion.length === 0,
       }
+    );
+  }
 
-      logger.error("Ollama call failed after all retries", {
-        error: error.message,
+  /** Models pulled into the Ollama instance, from `/api/tags`. */
+  async listModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+    const response = await fetch(`${this.baseUrl}/api/tags`, {
+      headers: propagationHeaders(),
+      signal: withTimeout(signal, this.timeout),
+    });
+
+    if (!response.ok) {
+      throw new UpstreamError(`Ollama returned ${response.status}`, {
+        upstreamStatus: response.status,
       });
-      throw error;
     }
+
+    const data = (await response.json()) as { models?: { name: string }[] };
+    return (data.models ?? []).map(({ name }) => ({
+      provider: "ollama",
+      model: name,
+      // Ollama lists "llama3" as "llama3:latest"
+      isDefault: name === this.model || name === `${this.model}:latest`,
+    }));
+  }
+
+  /** `/api/embeddings` takes one prompt per request, so texts are embedded in turn. */
+  async embed(input: EmbeddingInput): Promise<EmbeddingResult> {
+    const embeddings: number[][] = [];
+
+    for (const text of input.texts) {
+      const embedding = await fetchWithRetry(async ({ signal }) => {
+        const response = await fetch(`${this.baseUrl}/api/embeddings`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...propagationHeaders(),
+          },
+          body: JSON.stringify({ model: this.embedModel, prompt: text }),
+          signal,
+        });
+
+        if (!response.ok) {
+          throw new UpstreamError(`Ollama returned ${response.status}`, {
+            upstreamStatus: response.status,
+          });
+        }
+
+        const data = (await response.json()) as { embedding?: number[] };
+        if (!data.embedding?.length) {
+          throw new UpstreamError("Ollama response missing embedding");
+        }
+        return data.embedding;
+      }, this.retryOptions(input.signal));
+
+      embeddings.push(embedding);
+    }
+
+    return { embeddings, model: this.embedModel };
+  }
+
+  private modelFor(input: CompletionInput): string {
+    return input.model ?? this.model;
+  }
+
+  private async chat(
+    input: CompletionInput,
+    stream: boolean,
+    signal: AbortSignal
+  ): Promise<Response> {
+    const model = this.modelFor(input);
+    const tools = this.modelsWithoutTools.has(model) ? undefined : input.tools;
+
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...propagationHeaders(),
+      },
+      body: JSON.stringify({
+        model,
+        messages: input.messages.map(toOllamaMessage),
+        tools: tools?.length
+          ? tools.map((tool) => ({ type: "function", function: tool }))
+          : undefined,
+        options: {
+          ...this.options,
+          temperature: input.params?.temperature ?? this.options.temperature,
+          top_p: input.params?.topP,
+          num_predict: input.params?.maxTokens,
+        },
+        stream,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      // e.g. llama3 has no tool support; answer without tools rather than failing
+      if (response.status === 400 && tools?.length) {
+        const body = await response.text();
+        if (body.includes("does not support tools")) {
+          this.modelsWithoutTools.add(model);
+          return this.chat(input, stream, signal);
+        }
+      }
+      throw new UpstreamError(`Ollama returned ${response.status}`, {
+        upstreamStatus: response.status,
+      });
+    }
+
+    return response;
+  }
+
+  private retryOptions(signal?: AbortSignal): RetryOptions {
+    return {
+      label: "Ollama",
+      provider: "ollama",
+      timeout: this.timeout,
+      maxRetries: this.maxRetries,
+      retryDelayMs: this.retryDelayMs,
+      signal,
+    };
   }
 }
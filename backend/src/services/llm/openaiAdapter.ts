@@ -0,0 +1,325 @@
+import {
+  CompletionInput,
+  CompletionResult,
+  EmbeddingInput,
+  EmbeddingResult,
+  LlmAdapter,
+  Message,
+  ModelInfo,
+  TokenUsage,
+  ToolCall,
+} from "./types";
+import { fetchWithRetry, RetryOptions, withTimeout } from "./retry";
+import { readLines } from "./stream";
+import { UpstreamError } from "../../utils/errors";
+import { propagationHeaders } from "../../utils/requestContext";
+
+interface OpenAiUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface OpenAiToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+/** Arguments arrive as a JSON string; a malformed one reaches the tool as `{}` and fails its validation. */
+function parseArguments(raw: string | undefined): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw || "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function toToolCalls(calls: OpenAiToolCall[] | undefined): ToolCall[] | undefined {
+  if (!calls?.length) return undefined;
+  return calls.map((call) => ({
+    id: call.id,
+    name: call.function.name,
+    arguments: parseArguments(call.function.arguments),
+  }));
+}
+
+function toOpenAiMessage(message: Message) {
+  if (message.role === "tool") {
+    return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.toolCalls?.length) {
+    return {
+      role: message.role,
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: "function",
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+function toTokenUsage(usage?: OpenAiUsage): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+  };
+}
+
+/**
+ * Adapter for any server that implements OpenAI's `/v1/chat/completions`
+ * (vLLM, llama.cpp server, LM Studio, ...). `baseUrl` includes the `/v1` prefix.
+ */
+export class OpenAiLlmAdapter implements LlmAdapter {
+  private baseUrl: string;
+  private apiKey?: string;
+  private model: string;
+  private embedModel: string;
+  private temperature?: number;
+  private topP?: number;
+  private maxTokens?: number;
+  private timeout: number;
+  private maxRetries: number;
+  private retryDelayMs: number;
+
+  constructor(config: {
+    baseUrl: string;
+    apiKey?: string;
+    model: string;
+    embedModel?: string;
+    temperature?: number;
+    topP?: number;
+    maxTokens?: number;
+    timeout?: number;
+    maxRetries?: number;
+    retryDelayMs?: number;
+  }) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, "");
+    this.apiKey = config.apiKey;
+    this.model = config.model;
+    this.embedModel = config.embedModel || "text-embedding-3-small";
+    this.temperature = config.temperature;
+    this.topP = config.topP;
+    this.maxTokens = config.maxTokens;
+    this.timeout = config.timeout || 12000;
+    this.maxRetries = config.maxRetries || 2;
+    this.retryDelayMs = config.retryDelayMs || 1000;
+  }
+
+  async complete(input: CompletionInput): Promise<CompletionResult> {
+    return fetchWithRetry(async ({ signal }) => {
+      const response = await this.chatCompletions(input, false, signal);
+
+      const data = (await response.json()) as {
+        model?: string;
+        choices?: Array<{
+          message?: { content?: string | null; tool_calls?: OpenAiToolCall[] };
+        }>;
+        usage?: OpenAiUsage;
+      };
+      const message = data.choices?.[0]?.message;
+      const toolCalls = toToolCalls(message?.tool_calls);
+      if (!message?.content && !toolCalls) {
+        throw new UpstreamError("OpenAI response missing choices[0].message.content");
+      }
+      return {
+        completion: message?.content ?? "",
+        toolCalls,
+        usage: toTokenUsage(data.usage),
+        model: data.model ?? this.modelFor(input),
+      };
+    }, this.retryOptions(input.signal));
+  }
+
+  async stream(
+    input: CompletionInput,
+    onToken: (token: string) => void
+  ): Promise<CompletionResult> {
+    let completion = "";
+    let usage: TokenUsage | undefined;
+
+    return fetchWithRetry(
+      async ({ signal, touch }) => {
+        const response = await this.chatCompletions(input, true, signal);
+        // Tool calls stream as fragments keyed by index; arguments arrive in pieces
+        const calls: { id: string; name: string; arguments: string }[] = [];
+
+        // Server-Sent Events: "data: {...}" lines terminated by "data: [DONE]"
+        await readLines(
+          response.body,
+          (line) => {
+            if (!line.startsWith("data:")) return;
+            const payload = line.slice(5).trim();
+            if (payload === "[DONE]") return;
+
+            const data = JSON.parse(payload) as {
+              choices?: Array<{
+                delta?: {
+                  content?: string | null;
+                  tool_calls?: Array<{
+                    index: number;
+                    id?: string;
+                    function?: { name?: string; arguments?: string };
+                  }>;
+                };
+              }>;
+              usage?: OpenAiUsage | null;
+            };
+            // The last chunk, with empty `choices`; servers that ignore
+            // stream_options never send it
+            if (data.usage) {
+              usage = toTokenUsage(data.usage);
+            }
+            for (const fragment of data.choices?.[0]?.delta?.tool_calls ?? []) {
+              const call = (calls[fragment.index] ??= { id: "", name: "", arguments: "" });
+              call.id ||= fragment.id ?? "";
+              call.name += fragment.function?.name ?? "";
+              call.arguments += fragment.function?.arguments ?? "";
+            }
+            const token = data.choices?.[0]?.delta?.content;
+            if (token) {
+              completion += token;
+              onToken(token);
+            }
+          },
+          touch
+        );
+
+        const toolCalls = toToolCalls(
+          calls
+            .filter(Boolean)
+            .map((call) => ({
+              id: call.id,
+              type: "function" as const,
+              function: { name: call.name, arguments: call.arguments },
+            }))
+        );
+        if (!completion && !toolCalls) {
+          throw new UpstreamError("OpenAI stream ended without content");
+        }
+        return { completion, toolCalls, usage, model: this.modelFor(input) };
+      },
+      {
+        ...this.retryOptions(input.signal),
+        // Once tokens have been forwarded a retry would duplicate them
+        canRetry: () => completion.length === 0,
+      }
+    );
+  }
+
+  /** Models the server reports at `/models`. */
+  async listModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+    const response = await fetch(`${this.baseUrl}/models`, {
+      headers: this.headers(),
+      signal: withTimeout(signal, this.timeout),
+    });
+
+    if (!response.ok) {
+      throw new UpstreamError(`OpenAI-compatible server returned ${response.status}`, {
+        upstreamStatus: response.status,
+      });
+    }
+
+    const data = (await response.json()) as { data?: { id: string }[] };
+    return (data.data ?? []).map(({ id }) => ({
+      provider: "openai",
+      model: id,
+      isDefault: id === this.model,
+    }));
+  }
+
+  /** Batch embeddings from `/embeddings`. */
+  async embed(input: EmbeddingInput): Promise<EmbeddingResult> {
+    return fetchWithRetry(async ({ signal }) => {
+      const response = await fetch(`${this.baseUrl}/embeddings`, {
+        method: "POST",
+        headers: this.headers(),
+        body: JSON.stringify({ model: this.embedModel, input: input.texts }),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw new UpstreamError(`OpenAI-compatible server returned ${response.status}`, {
+          upstreamStatus: response.status,
+        });
+      }
+
+      const data = (await response.json()) as {
+        model?: string;
+        data?: Array<{ index: number; embedding: number[] }>;
+      };
+      if (data.data?.length !== input.texts.length) {
+        throw new UpstreamError("OpenAI response has the wrong number of embeddings");
+      }
+      return {
+        // Entries carry their input index and aren't guaranteed to be in order
+        embeddings: [...data.data].sort((a, b) => a.index - b.index).map((d) => d.embedding),
+        // Keep the configured name so stored vectors match later queries
+        model: this.embedModel,
+      };
+    }, this.retryOptions(input.signal));
+  }
+
+  private modelFor(input: CompletionInput): string {
+    return input.model ?? this.model;
+  }
+
+  private async chatCompletions(
+    input: CompletionInput,
+    stream: boolean,
+    signal: AbortSignal
+  ): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: this.headers(),
+      body: JSON.stringify({
+        model: this.modelFor(input),
+        messages: input.messages.map(toOpenAiMessage),
+        tools: input.tools?.length
+          ? input.tools.map((tool) => ({ type: "function", function: tool }))
+          : undefined,
+        temperature: input.params?.temperature ?? this.temperature,
+        top_p: input.params?.topP ?? this.topP,
+        max_tokens: input.params?.maxTokens ?? this.maxTokens,
+        stream,
+        // Without this, streamed responses carry no token counts
+        stream_options: stream ? { include_usage: true } : undefined,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new UpstreamError(`OpenAI-compatible server returned ${response.status}`, {
+        upstreamStatus: response.status,
+      });
+    }
+
+    return response;
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...propagationHeaders(),
+    };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  private retryOptions(signal?: AbortSignal): RetryOptions {
+    return {
+      label: "OpenAI-compatible LLM",
+      provider: "openai",
+      timeout: this.timeout,
+      maxRetries: this.maxRetries,
+      retryDelayMs: this.retryDelayMs,
+      signal,
+    };
+  }
+}
@@ -0,0 +1,158 @@
+import { SpanStatusCode, trace } from '@opentelemetry/api';
+import { logger } from '../../utils/logger';
+import { AppError, UpstreamError, UpstreamTimeoutError } from '../../utils/errors';
+import { llmAttempts, llmRetries, llmTimeouts } from '../../utils/metrics';
+
+export interface RetryOptions {
+  /** Human-readable provider name used in log lines, e.g. "mock LLM". */
+  label: string;
+  /** Provider name used as the metrics label, e.g. "mock". */
+  provider: string;
+  timeout: number;
+  maxRetries: number;
+  retryDelayMs: number;
+  /** Caller-owned signal; aborting it stops the current attempt and any further retries. */
+  signal?: AbortSignal;
+  /** Return false to stop retrying, e.g. once streamed tokens have reached the client. */
+  canRetry?: () => boolean;
+}
+
+export interface AttemptContext {
+  attempt: number;
+  /** Combined signal that fires on timeout or when the caller aborts. */
+  signal: AbortSignal;
+  /** Restart the timeout clock. Streaming reads call this on every chunk. */
+  touch: () => void;
+}
+
+const tracer = trace.getTracer('mini-chatgpt-backend');
+
+export function abortError(): Error {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/** `signal` combined with a timeout, for one-off requests outside `fetchWithRetry`. */
+export function withTimeout(signal: AbortSignal | undefined, timeoutMs: number): AbortSignal {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(abortError());
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(abortError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs `run` with a per-attempt timeout and retries timeouts and 5xx
+ * responses with exponential backoff. Aborting `options.signal` is never
+ * retried. Final failures are thrown as `UpstreamTimeoutError` or
+ * `UpstreamError`.
+ */
+export async function fetchWithRetry<T>(
+  run: (ctx: AttemptContext) => Promise<T>,
+  options: RetryOptions,
+  attempt: number = 0
+): Promise<T> {
+  if (options.signal?.aborted) {
+    throw abortError();
+  }
+
+  const controller = new AbortController();
+  let timeoutId = setTimeout(() => controller.abort(), options.timeout);
+  const touch = () => {
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(() => controller.abort(), options.timeout);
+  };
+  const onCallerAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', onCallerAbort, { once: true });
+
+  try {
+    logger.info(
+      `Calling ${options.label} (attempt ${attempt + 1}/${options.maxRetries + 1})`
+    );
+
+    llmAttempts.inc({ provider: options.provider });
+    return await traceAttempt(options, attempt, () =>
+      run({ attempt, signal: controller.signal, touch })
+    );
+  } catch (error: any) {
+    clearTimeout(timeoutId);
+
+    if (options.signal?.aborted) {
+      logger.info(`${options.label} call cancelled by caller`);
+      throw abortError();
+    }
+
+    const isTimeout = error.name === 'AbortError';
+    const isServerError = error instanceof UpstreamError && error.retryable;
+    const canRetry = options.canRetry ? options.canRetry() : true;
+
+    if (isTimeout) {
+      llmTimeouts.inc({ provider: options.provider });
+    }
+
+    if ((isTimeout || isServerError) && canRetry && attempt < options.maxRetries) {
+      llmRetries.inc({
+        provider: options.provider,
+        reason: isTimeout ? 'timeout' : 'server_error',
+      });
+      const delay = options.retryDelayMs * Math.pow(2, attempt);
+      logger.warn(
+        `${options.label} call failed (${
+          isTimeout ? 'timeout' : `status ${error.upstreamStatus}`
+        }), retrying in ${delay}ms...`
+      );
+
+      await sleep(delay, options.signal);
+      return fetchWithRetry(run, options, attempt + 1);
+    }
+
+    logger.error(`${options.label} call failed after all retries`, {
+      error: error.message,
+    });
+    if (isTimeout) {
+      throw new UpstreamTimeoutError(`${options.label} timed out`);
+    }
+    throw error instanceof AppError
+      ? error
+      : new UpstreamError(`${options.label} request failed`, { cause: error });
+  } finally {
+    clearTimeout(timeoutId);
+    options.signal?.removeEventListener('abort', onCallerAbort);
+  }
+}
+
+/** One span per attempt, so retries show up as siblings under the request. */
+function traceAttempt<T>(options: RetryOptions, attempt: number, fn: () => Promise<T>): Promise<T> {
+  return tracer.startActiveSpan(
+    `llm ${options.provider} attempt`,
+    { attributes: { 'llm.provider': options.provider, 'llm.attempt': attempt + 1 } },
+    async (span) => {
+      try {
+        return await fn();
+      } catch (error: any) {
+        span.recordException(error);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+        throw error;
+      } finally {
+        span.end();
+      }
+    }
+  );
+}
@@ -0,0 +1,42 @@
+import { UpstreamError } from "../../utils/errors";
+
+/**
+ * Reads a streaming HTTP body line by line. Used for Ollama's and the mock
+ * LLM's newline-delimited JSON. `onChunk` is called for every network chunk
+ * so the caller can keep its idle timeout alive.
+ */
+export async function readLines(
+  body: ReadableStream<Uint8Array> | null,
+  onLine: (line: string) => void,
+  onChunk?: () => void
+): Promise<void> {
+  if (!body) {
+    throw new UpstreamError('Streaming response has no body');
+  }
+
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      onChunk?.();
+      buffer += decoder.decode(value, { stream: true });
+
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newlineIndex).trim();
+        buffer = buffer.slice(newlineIndex + 1);
+        if (line) onLine(line);
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim()) onLine(buffer.trim());
+  } finally {
+    reader.releaseLock();
+  }
+}
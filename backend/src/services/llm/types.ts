@@ -1,17 +1,132 @@
 export interface Message {
-  role: 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
+  /** Tools an assistant turn asked to call. */
+  toolCalls?: ToolCall[];
+  /** On a `tool` turn: the call this is the result of. */
+  toolCallId?: string;
+}
+
+/** A request from the model to run one of the tools it was offered. */
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/** A tool offered to the model; `parameters` is a JSON Schema object. */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+/** Sampling options; unset fields fall back to the provider's configured defaults. */
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+}
+
+export interface CompletionInput {
+  messages: Message[];
+  signal?: AbortSignal;
+  /** Provider `model` belongs to; a fallback chain tries it first. */
+  provider?: string;
+  /** Model to use instead of the adapter's configured one. */
+  model?: string;
+  params?: GenerationParams;
+  /** Tools the model may call instead of answering. */
+  tools?: ToolDefinition[];
+  /** What the call is for, as recorded in the usage ledger; defaults to `reply`. */
+  purpose?: CompletionPurpose;
+}
+
+/**
+ * `reply` is the first call of a turn, `tool` a follow-up with tool results;
+ * `title` and `summary` are made by the title generator and context builder.
+ */
+export type CompletionPurpose = 'reply' | 'tool' | 'title' | 'summary';
+
+/** A model a provider can serve, as listed by `GET /api/models`. */
+export interface ModelInfo {
+  provider: string;
+  model: string;
+  /** The model this provider uses when a conversation doesn't pick one. */
+  isDefault: boolean;
+}
+
+export interface TokenUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+export interface CompletionResult {
+  /** May be empty when the model only asked for tool calls. */
+  completion: string;
+  /** Set when the model wants tools run before it continues. */
+  toolCalls?: ToolCall[];
+  /** Token counts as reported by the provider, when it reports them. */
+  usage?: TokenUsage;
+  /** Provider and model that produced the completion. */
+  provider?: string;
+  model?: string;
+}
+
+export interface EmbeddingInput {
+  texts: string[];
+  signal?: AbortSignal;
+}
+
+export interface EmbeddingResult {
+  /** One vector per input text, in input order. */
+  embeddings: number[][];
+  /** Vectors are only comparable with others from the same provider and model. */
+  provider?: string;
+  model: string;
 }
 
 export interface LlmAdapter {
-  complete(input: { messages: Message[] }): Promise<{ completion: string }>;
+  complete(input: CompletionInput): Promise<CompletionResult>;
+  /**
+   * Same as `complete`, but calls `onToken` with each piece of the reply as
+   * the provider produces it. Resolves with the full completion.
+   */
+  stream(
+    input: CompletionInput,
+    onToken: (token: string) => void
+  ): Promise<CompletionResult>;
+  /** Models available from the provider(s) behind this adapter. */
+  listModels(signal?: AbortSignal): Promise<ModelInfo[]>;
+  /** Embedding vectors for retrieval, from the provider's embedding model. */
+  embed(input: EmbeddingInput): Promise<EmbeddingResult>;
 }
 
+export const LLM_PROVIDERS = ['mock', 'ollama', 'openai'] as const;
+export type LlmProvider = (typeof LLM_PROVIDERS)[number];
+
 export interface LlmConfig {
-  provider: 'mock' | 'ollama';
+  provider: LlmProvider;
+  /** Providers tried in order after `provider` fails or its circuit is open. */
+  fallbackProviders?: LlmProvider[];
+  /** Consecutive failures that open a provider's circuit. */
+  circuitFailureThreshold?: number;
+  /** How long an open circuit skips its provider before a trial call. */
+  circuitResetMs?: number;
   mockBaseUrl?: string;
   ollamaBaseUrl?: string;
   ollamaModel?: string;
+  ollamaTemperature?: number;
+  ollamaNumCtx?: number;
+  ollamaStop?: string[];
+  ollamaEmbedModel?: string;
+  openaiBaseUrl?: string;
+  openaiApiKey?: string;
+  openaiModel?: string;
+  openaiTemperature?: number;
+  openaiTopP?: number;
+  openaiMaxTokens?: number;
+  openaiEmbedModel?: string;
   timeout?: number;
   maxRetries?: number;
   retryDelayMs?: number;
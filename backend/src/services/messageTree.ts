@@ -0,0 +1,72 @@
+export interface TreeMessage {
+  id: string;
+  parentId: string | null;
+  createdAt: Date;
+}
+
+/**
+ * In-memory view of a conversation's messages as a tree. Each message points
+ * at its parent; messages sharing a parent are alternative versions (branches)
+ * of the same turn, ordered oldest first.
+ */
+export class MessageTree<T extends TreeMessage> {
+  private byId = new Map<string, T>();
+  private children = new Map<string | null, T[]>();
+
+  /** `messages` must be ordered by `createdAt` ascending. */
+  constructor(messages: T[]) {
+    for (const message of messages) {
+      this.add(message);
+    }
+  }
+
+  add(message: T) {
+    this.byId.set(message.id, message);
+    const siblings = this.children.get(message.parentId) ?? [];
+    siblings.push(message);
+    this.children.set(message.parentId, siblings);
+  }
+
+  get(id: string): T | undefined {
+    return this.byId.get(id);
+  }
+
+  childrenOf(id: string | null): T[] {
+    return this.children.get(id) ?? [];
+  }
+
+  siblingsOf(message: T): T[] {
+    return this.childrenOf(message.parentId);
+  }
+
+  /** Messages from the root down to `leafId`, oldest first. */
+  pathTo(leafId: string | null): T[] {
+    const path: T[] = [];
+    let current = leafId ? this.byId.get(leafId) : undefined;
+    while (current) {
+      path.push(current);
+      current = current.parentId ? this.byId.get(current.parentId) : undefined;
+    }
+    return path.reverse();
+  }
+
+  /** Follows the newest child from `fromId` (or the newest root) down to a leaf. */
+  latestLeaf(fromId: string | null): T | undefined {
+    let current = fromId ? this.byId.get(fromId) : this.newest(this.childrenOf(null));
+    let next = current ? this.newest(this.childrenOf(current.id)) : undefined;
+    while (next) {
+      current = next;
+      next = this.newest(this.childrenOf(current.id));
+    }
+    return current;
+  }
+
+  /** The stored active leaf if it still exists, otherwise the newest branch. */
+  resolveLeaf(activeLeafId: string | null): T | undefined {
+    return (activeLeafId && this.byId.get(activeLeafId)) || this.latestLeaf(null);
+  }
+
+  private newest(messages: T[]): T | undefined {
+    return messages[messages.length - 1];
+  }
+}
@@ -0,0 +1,82 @@
+import { PrismaClient } from '@prisma/client';
+import { ForbiddenError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+/**
+ * Each user's own presets, plus shared ones (no owner) that everyone can
+ * apply but only be changed in the database.
+ */
+export class PresetService {
+  async listPresets(ownerId: string) {
+    const presets = await prisma.preset.findMany({
+      where: { OR: [{ ownerId }, { ownerId: null }] },
+      orderBy: { name: 'asc' },
+    });
+
+    return presets.map(toPresetResponse);
+  }
+
+  async createPreset(ownerId: string, data: { name: string; systemPrompt: string }) {
+    const preset = await prisma.preset.create({
+      data: { ownerId, name: data.name.trim(), systemPrompt: data.systemPrompt },
+    });
+
+    logger.info('Created preset', { id: preset.id, name: preset.name });
+    return toPresetResponse(preset);
+  }
+
+  async updatePreset(ownerId: string, id: string, data: { name?: string; systemPrompt?: string }) {
+    await this.assertOwner(ownerId, id);
+    const preset = await prisma.preset.update({
+      where: { id },
+      data: { name: data.name?.trim(), systemPrompt: data.systemPrompt },
+    });
+
+    logger.info('Updated preset', { id });
+    return toPresetResponse(preset);
+  }
+
+  async deletePreset(ownerId: string, id: string) {
+    await this.assertOwner(ownerId, id);
+    await prisma.preset.delete({
+      where: { id },
+    });
+
+    logger.info('Deleted preset', { id });
+  }
+
+  /** Other users' presets are reported as not found. */
+  private async assertOwner(ownerId: string, id: string) {
+    const preset = await prisma.preset.findFirst({
+      where: { id, OR: [{ ownerId }, { ownerId: null }] },
+      select: { ownerId: true },
+    });
+
+    if (!preset) {
+      throw new NotFoundError('Preset not found');
+    }
+    if (!preset.ownerId) {
+      throw new ForbiddenError('Shared presets cannot be changed');
+    }
+  }
+}
+
+function toPresetResponse(preset: {
+  id: string;
+  ownerId: string | null;
+  name: string;
+  systemPrompt: string;
+  createdAt: Date;
+  updatedAt: Date;
+}) {
+  return {
+    id: preset.id,
+    name: preset.name,
+    systemPrompt: preset.systemPrompt,
+    shared: preset.ownerId === null,
+    createdAt: preset.createdAt.toISOString(),
+    updatedAt: preset.updatedAt.toISOString(),
+  };
+}
@@ -0,0 +1,83 @@
+import { PrismaClient } from '@prisma/client';
+import { UsageEntry, UsageLedger } from './llm';
+
+const prisma = new PrismaClient();
+
+export interface QuotaConfig {
+  /** Replies a user may request per UTC day, whatever their outcome; 0 means unlimited. */
+  dailyMessages: number;
+  /** Prompt plus completion tokens a user may use per UTC day; 0 means unlimited. */
+  dailyTokens: number;
+}
+
+export type QuotaResult =
+  | { allowed: true }
+  | { allowed: false; reason: string; retryAfterMs: number };
+
+/**
+ * Daily per-user quota on replies and tokens. Usage is counted from a ledger
+ * of every LLM call made for the user (see `MeteredLlmAdapter`), so it
+ * survives restarts and deleted conversations and is shared between replicas.
+ * Failed and cancelled turns count as replies; title, summary and tool
+ * follow-up calls count towards tokens.
+ */
+export class QuotaService implements UsageLedger {
+  private config: QuotaConfig;
+
+  constructor(config: QuotaConfig) {
+    this.config = config;
+  }
+
+  async check(userId: string, now: Date = new Date()): Promise<QuotaResult> {
+    const { dailyMessages, dailyTokens } = this.config;
+    if (dailyMessages <= 0 && dailyTokens <= 0) {
+      return { allowed: true };
+    }
+
+    const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const retryAfterMs = dayStart.getTime() + 24 * 60 * 60 * 1000 - now.getTime();
+
+    const [replies, usage] = await Promise.all([
+      prisma.usageRecord.count({
+        where: { userId, purpose: 'reply', createdAt: { gte: dayStart } },
+      }),
+      prisma.usageRecord.aggregate({
+        where: { userId, createdAt: { gte: dayStart } },
+        _sum: { promptTokens: true, completionTokens: true },
+      }),
+    ]);
+
+    if (dailyMessages > 0 && replies >= dailyMessages) {
+      return {
+        allowed: false,
+        reason: `Daily quota reached: ${dailyMessages} replies`,
+        retryAfterMs,
+      };
+    }
+
+    const tokens = (usage._sum.promptTokens ?? 0) + (usage._sum.completionTokens ?? 0);
+    if (dailyTokens > 0 && tokens >= dailyTokens) {
+      return {
+        allowed: false,
+        reason: `Daily quota reached: ${dailyTokens} tokens`,
+        retryAfterMs,
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  async record(entry: UsageEntry) {
+    await prisma.usageRecord.create({
+      data: {
+        userId: entry.userId,
+        purpose: entry.purpose,
+        outcome: entry.outcome,
+        provider: entry.provider,
+        model: entry.model,
+        promptTokens: entry.usage?.promptTokens,
+        completionTokens: entry.usage?.completionTokens,
+      },
+    });
+  }
+}
@@ -0,0 +1,97 @@
+const WINDOW_MS = 60_000;
+
+export interface RateLimitConfig {
+  /** Generation requests allowed per key in any 60-second window; 0 disables the check. */
+  requestsPerMinute: number;
+  /** Generations a key may have in flight at once; 0 disables the check. */
+  maxConcurrent: number;
+}
+
+export type RateLimitResult =
+  | { allowed: true; release: () => void }
+  | { allowed: false; reason: string; retryAfterMs: number };
+
+/**
+ * In-memory limiter for LLM generations, keyed by user. Combines a sliding
+ * one-minute request window with a cap on concurrent in-flight generations.
+ * State is per process: with several replicas each one enforces the limits
+ * on its own.
+ */
+export class RateLimiter {
+  private config: RateLimitConfig;
+  private requests = new Map<string, number[]>();
+  private inFlight = new Map<string, number>();
+
+  constructor(config: RateLimitConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Reserves a slot for one generation. Call `release` once it has finished,
+   * failed or been cancelled.
+   */
+  acquire(key: string, now: number = Date.now()): RateLimitResult {
+    const { maxConcurrent } = this.config;
+
+    const recent = this.recentRequests(key, now);
+    if (!Array.isArray(recent)) return recent;
+
+    const running = this.inFlight.get(key) ?? 0;
+    if (maxConcurrent > 0 && running >= maxConcurrent) {
+      return {
+        allowed: false,
+        reason: `Too many replies in progress: at most ${maxConcurrent} at a time`,
+        retryAfterMs: 1000,
+      };
+    }
+
+    recent.push(now);
+    this.requests.set(key, recent);
+    this.inFlight.set(key, running + 1);
+
+    let released = false;
+    return {
+      allowed: true,
+      release: () => {
+        if (released) return;
+        released = true;
+        const remaining = (this.inFlight.get(key) ?? 1) - 1;
+        if (remaining > 0) {
+          this.inFlight.set(key, remaining);
+        } else {
+          this.inFlight.delete(key);
+        }
+      },
+    };
+  }
+
+  /**
+   * Counts one generation against the per-minute window only, for generations
+   * that outlive the request (background jobs cap their own concurrency).
+   */
+  admit(key: string, now: number = Date.now()): RateLimitResult {
+    const recent = this.recentRequests(key, now);
+    if (!Array.isArray(recent)) return recent;
+
+    recent.push(now);
+    this.requests.set(key, recent);
+    return { allowed: true, release: () => {} };
+  }
+
+  /** The key's requests still in the window, or the rejection when it is full. */
+  private recentRequests(key: string, now: number): number[] | RateLimitResult {
+    const { requestsPerMinute } = this.config;
+
+    const recent = (this.requests.get(key) ?? []).filter((t) => t > now - WINDOW_MS);
+    if (requestsPerMinute > 0 && recent.length >= requestsPerMinute) {
+      this.requests.set(key, recent);
+      return {
+        allowed: false,
+        reason: `Rate limit exceeded: ${requestsPerMinute} messages per minute`,
+        // The oldest request in the window is the next to expire
+        retryAfterMs: recent[0] + WINDOW_MS - now,
+      };
+    }
+    return recent;
+  }
+}
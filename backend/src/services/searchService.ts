@@ -0,0 +1,122 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { MessageTree } from './messageTree';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+// Best matches returned per conversation
+const MATCHES_PER_CONVERSATION = 3;
+
+// Highlight markers in snippets. The client splits on them and renders the
+// text as plain text, so message content is never interpreted as HTML.
+const HEADLINE_OPTIONS =
+  'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=18, MinWords=6, FragmentDelimiter=" … "';
+
+interface MessageHit {
+  messageId: string;
+  conversationId: string;
+  title: string;
+  activeLeafId: string | null;
+  role: string;
+  createdAt: Date;
+  snippet: string;
+}
+
+export interface SearchMatch {
+  messageId: string;
+  role: string;
+  /** Excerpt of the message with matched terms wrapped in `<mark>` tags. */
+  snippet: string;
+  createdAt: string;
+  /** False when the message sits on a branch that is not currently shown. */
+  onActiveBranch: boolean;
+}
+
+export interface SearchResult {
+  conversationId: string;
+  title: string;
+  matches: SearchMatch[];
+}
+
+/**
+ * Full-text search over message content, backed by the generated
+ * `Message.searchVector` column and its GIN index. Queries use web search
+ * syntax: quoted phrases, `or` and `-excluded` terms.
+ */
+export class SearchService {
+  async search(ownerId: string, query: string, limit: number = 20): Promise<SearchResult[]> {
+    const tsQuery = Prisma.sql`websearch_to_tsquery('english', ${query})`;
+
+    // Rank first, then build headlines only for the rows that are returned
+    const hits = await prisma.$queryRaw<MessageHit[]>`
+      SELECT
+        hit."id" AS "messageId",
+        hit."conversationId",
+        c."title",
+        c."activeLeafId",
+        hit."role",
+        hit."createdAt",
+        ts_headline('english', hit."content", ${tsQuery}, ${HEADLINE_OPTIONS}) AS "snippet"
+      FROM (
+        SELECT m."id", m."conversationId", m."role", m."content", m."createdAt",
+               ts_rank(m."searchVector", ${tsQuery}) AS "rank"
+        FROM "Message" m
+        JOIN "Conversation" owned ON owned."id" = m."conversationId"
+        WHERE owned."ownerId" = ${ownerId} AND m."searchVector" @@ ${tsQuery}
+        ORDER BY "rank" DESC, m."createdAt" DESC
+        LIMIT ${limit * MATCHES_PER_CONVERSATION}
+      ) hit
+      JOIN "Conversation" c ON c."id" = hit."conversationId"
+      ORDER BY hit."rank" DESC, hit."createdAt" DESC
+    `;
+
+    // Group by conversation, keeping the best-ranked conversations first
+    const grouped = new Map<string, MessageHit[]>();
+    for (const hit of hits) {
+      const conversationHits = grouped.get(hit.conversationId) ?? [];
+      conversationHits.push(hit);
+      grouped.set(hit.conversationId, conversationHits);
+    }
+
+    const conversationIds = [...grouped.keys()].slice(0, limit);
+    const activePaths = await this.loadActivePaths(
+      conversationIds.map((id) => ({ id, activeLeafId: grouped.get(id)![0].activeLeafId }))
+    );
+
+    logger.info('Searched messages', { hits: hits.length, conversations: conversationIds.length });
+
+    return conversationIds.map((conversationId) => {
+      const conversationHits = grouped.get(conversationId)!;
+      const activePath = activePaths.get(conversationId)!;
+
+      return {
+        conversationId,
+        title: conversationHits[0].title,
+        matches: conversationHits.slice(0, MATCHES_PER_CONVERSATION).map((hit) => ({
+          messageId: hit.messageId,
+          role: hit.role,
+          snippet: hit.snippet,
+          createdAt: hit.createdAt.toISOString(),
+          onActiveBranch: activePath.has(hit.messageId),
+        })),
+      };
+    });
+  }
+
+  /** Ids of the messages on each conversation's active branch. */
+  private async loadActivePaths(conversations: { id: string; activeLeafId: string | null }[]) {
+    const messages = await prisma.message.findMany({
+      where: { conversationId: { in: conversations.map((c) => c.id) } },
+      select: { id: true, conversationId: true, parentId: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const paths = new Map<string, Set<string>>();
+    for (const conversation of conversations) {
+      const tree = new MessageTree(messages.filter((m) => m.conversationId === conversation.id));
+      const leaf = tree.resolveLeaf(conversation.activeLeafId);
+      paths.set(conversation.id, new Set(tree.pathTo(leaf?.id ?? null).map((m) => m.id)));
+    }
+    return paths;
+  }
+}
@@ -0,0 +1,236 @@
+import { EventEmitter } from 'events';
+import { Prisma, PrismaClient, SyncEvent as SyncEventRow } from '@prisma/client';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+// First key of the per-user advisory lock taken while an event is inserted
+// (the second is a hash of the owner id), so each user's events commit in
+// `seq` order and a poll never sees a later one before an earlier one
+const PUBLISH_LOCK_CLASS = 7_420_001;
+
+// Events read per query by the poller and by a catch-up
+const BATCH_SIZE = 500;
+
+export type SyncEventType =
+  | 'conversation.created'
+  | 'conversation.updated'
+  | 'conversation.deleted'
+  | 'message.created'
+  | 'message.status';
+
+export interface SyncConfig {
+  /** How often new events are read from the database and pushed. */
+  pollIntervalMs: number;
+  /** Events are kept this long for clients catching up after a disconnect. */
+  retentionMs: number;
+}
+
+export interface SyncEvent {
+  seq: number;
+  type: SyncEventType;
+  conversationId: string;
+  data: unknown;
+  createdAt: string;
+}
+
+/**
+ * Log of changes to each user's conversations, for keeping their other tabs
+ * and devices up to date. Events are stored, so every backend process pushes
+ * them to its own sockets (it polls the log; its own events are pushed right
+ * away) and a client that was disconnected can catch up from the last `seq` it
+ * saw. `seq` increases across all users, but only each user's own events are
+ * guaranteed to commit in `seq` order, so the poller keeps a cursor per user.
+ */
+export class SyncService {
+  readonly config: SyncConfig;
+  private events = new EventEmitter();
+  // Last `seq` pushed per user with a socket on this process
+  private cursors = new Map<string, number>();
+  private subscribers = new Map<string, number>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private pollAgain = false;
+  private lastPrunedAt = 0;
+
+  constructor(config: SyncConfig) {
+    this.config = config;
+    // One listener per open socket
+    this.events.setMaxListeners(0);
+  }
+
+  /**
+   * Records a change for `ownerId`'s clients. Never throws: a lost event only
+   * delays other tabs until their next reload.
+   */
+  async publish(ownerId: string | null, type: SyncEventType, conversationId: string, data: unknown) {
+    // Conversations from before accounts have no owner to notify
+    if (!ownerId) return;
+
+    try {
+      await prisma.$transaction([
+        this.lockOwner(ownerId),
+        prisma.syncEvent.create({
+          data: { ownerId, type, conversationId, data: data as Prisma.InputJsonValue },
+        }),
+      ]);
+      void this.poll();
+    } catch (error: any) {
+      logger.error('Failed to publish sync event', { type, conversationId, error: error.message });
+    }
+  }
+
+  /**
+   * The newest `seq`, where a client without history starts. With `ownerId`,
+   * it's read under that user's publish lock, so none of their events with a
+   * lower `seq` is still to commit.
+   */
+  async latestSeq(ownerId?: string): Promise<number> {
+    const query = prisma.syncEvent.findFirst({
+      orderBy: { seq: 'desc' },
+      select: { seq: true },
+    });
+    const latest = ownerId
+      ? (await prisma.$transaction([this.lockOwner(ownerId), query]))[1]
+      : await query;
+    return latest?.seq ?? 0;
+  }
+
+  /**
+   * `ownerId`'s events after `seq`, oldest first. Returns null when the client
+   * has to reload instead: some events after `seq` were pruned, or there are
+   * too many to replay.
+   */
+  async since(ownerId: string, seq: number): Promise<SyncEvent[] | null> {
+    const oldest = await prisma.syncEvent.findFirst({
+      orderBy: { seq: 'asc' },
+      select: { seq: true },
+    });
+    const latest = oldest ? await this.latestSeq() : 0;
+    // With nothing retained we can't tell whether the client missed anything
+    if (!oldest ? seq > 0 : seq < oldest.seq - 1 || seq > latest) {
+      return null;
+    }
+
+    const rows = await prisma.syncEvent.findMany({
+      where: { ownerId, seq: { gt: seq } },
+      orderBy: { seq: 'asc' },
+      take: BATCH_SIZE + 1,
+    });
+    return rows.length > BATCH_SIZE ? null : rows.map(toSyncEvent);
+  }
+
+  /**
+   * Calls `listener` with `ownerId`'s events published after it resolves,
+   * until unsubscribed.
+   */
+  async subscribe(ownerId: string, listener: (event: SyncEvent) => void) {
+    this.events.on(ownerId, listener);
+    this.subscribers.set(ownerId, (this.subscribers.get(ownerId) ?? 0) + 1);
+    const unsubscribe = () => {
+      this.events.off(ownerId, listener);
+      const count = this.subscribers.get(ownerId)! - 1;
+      if (count > 0) {
+        this.subscribers.set(ownerId, count);
+      } else {
+        this.subscribers.delete(ownerId);
+        this.cursors.delete(ownerId);
+      }
+    };
+
+    if (!this.cursors.has(ownerId)) {
+      try {
+        const latest = await this.latestSeq(ownerId);
+        // Another socket of the user may have started it meanwhile
+        if (this.subscribers.has(ownerId) && !this.cursors.has(ownerId)) {
+          this.cursors.set(ownerId, latest);
+        }
+      } catch (error) {
+        unsubscribe();
+        throw error;
+      }
+    }
+    return unsubscribe;
+  }
+
+  start() {
+    this.timer = setInterval(() => void this.poll(), this.config.pollIntervalMs);
+    void this.poll();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async poll() {
+    if (this.polling) {
+      this.pollAgain = true;
+      return;
+    }
+
+    this.polling = true;
+    try {
+      do {
+        this.pollAgain = false;
+        await this.dispatchNew();
+      } while (this.pollAgain);
+      await this.prune();
+    } catch (error: any) {
+      logger.error('Failed to poll sync events', { error: error.message });
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private lockOwner(ownerId: string) {
+    return prisma.$executeRaw`SELECT pg_advisory_xact_lock(${PUBLISH_LOCK_CLASS}, hashtext(${ownerId}))`;
+  }
+
+  /** Pushes the events of users with a socket here, from each one's cursor. */
+  private async dispatchNew() {
+    for (;;) {
+      if (this.cursors.size === 0) return;
+
+      const rows: SyncEventRow[] = await prisma.syncEvent.findMany({
+        where: {
+          OR: [...this.cursors].map(([ownerId, cursor]) => ({ ownerId, seq: { gt: cursor } })),
+        },
+        orderBy: { seq: 'asc' },
+        take: BATCH_SIZE,
+      });
+      for (const row of rows) {
+        const cursor = this.cursors.get(row.ownerId);
+        // Skip users who disconnected, or reconnected with a newer cursor, meanwhile
+        if (cursor === undefined || row.seq <= cursor) continue;
+        this.cursors.set(row.ownerId, row.seq);
+        this.events.emit(row.ownerId, toSyncEvent(row));
+      }
+      if (rows.length < BATCH_SIZE) return;
+    }
+  }
+
+  /** Drops events older than the retention, at most once a minute. */
+  private async prune() {
+    const now = Date.now();
+    if (now - this.lastPrunedAt < 60 * 1000) return;
+    this.lastPrunedAt = now;
+
+    const { count } = await prisma.syncEvent.deleteMany({
+      where: { createdAt: { lt: new Date(now - this.config.retentionMs) } },
+    });
+    if (count > 0) {
+      logger.info('Pruned sync events', { count });
+    }
+  }
+}
+
+function toSyncEvent(row: SyncEventRow): SyncEvent {
+  return {
+    seq: row.seq,
+    type: row.type as SyncEventType,
+    conversationId: row.conversationId,
+    data: row.data,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
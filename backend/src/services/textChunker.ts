@@ -0,0 +1,89 @@
+export interface ChunkOptions {
+  /** Target chunk length in characters. */
+  size: number;
+  /** Characters repeated from the end of one chunk at the start of the next. */
+  overlap: number;
+}
+
+/**
+ * Splits a document into chunks of about `size` characters for embedding.
+ * Breaks fall between paragraphs where possible, then between sentences, then
+ * between words; the overlap keeps a fact that straddles a break findable
+ * from either side.
+ */
+export function chunkText(text: string, options: ChunkOptions): string[] {
+  const { size } = options;
+  const overlap = Math.min(options.overlap, Math.floor(size / 2));
+  const normalized = text.replace(/\r\n?/g, '\n').trim();
+  if (!normalized) return [];
+
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const piece of splitPieces(normalized, size)) {
+    if (current && current.length + piece.length + 2 > size) {
+      chunks.push(current);
+      const tail = overlapTail(current, overlap);
+      current = tail ? `${tail} ${piece}` : piece;
+    } else {
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
+
+/** Paragraphs, with any paragraph longer than `size` broken into smaller pieces. */
+function splitPieces(text: string, size: number): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .flatMap((paragraph) => {
+      if (paragraph.length <= size) return [paragraph];
+
+      const sentences = paragraph.match(/[^.!?\n]+(?:[.!?]+|\n|$)/g) ?? [paragraph];
+      const pieces: string[] = [];
+      let current = '';
+      for (const sentence of sentences.flatMap((s) => splitWords(s.trim(), size))) {
+        if (current && current.length + sentence.length + 1 > size) {
+          pieces.push(current);
+          current = sentence;
+        } else {
+          current = current ? `${current} ${sentence}` : sentence;
+        }
+      }
+      if (current) pieces.push(current);
+      return pieces;
+    });
+}
+
+/** Breaks a run-on sentence at word boundaries, or mid-word as a last resort. */
+function splitWords(sentence: string, size: number): string[] {
+  if (sentence.length <= size) return sentence ? [sentence] : [];
+
+  const pieces: string[] = [];
+  let current = '';
+  for (const word of sentence.split(/\s+/)) {
+    for (let i = 0; i < word.length; i += size) {
+      const part = word.slice(i, i + size);
+      if (current && current.length + part.length + 1 > size) {
+        pieces.push(current);
+        current = part;
+      } else {
+        current = current ? `${current} ${part}` : part;
+      }
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/** The last `overlap` characters of a chunk, starting at a word boundary. */
+function overlapTail(chunk: string, overlap: number): string {
+  if (overlap <= 0) return '';
+  const tail = chunk.slice(-overlap);
+  const wordStart = tail.search(/\s/);
+  return (wordStart === -1 ? tail : tail.slice(wordStart)).trim();
+}
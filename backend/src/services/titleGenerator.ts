@@ -0,0 +1,82 @@
+import { LlmAdapter } from './llm';
+import { logger } from '../utils/logger';
+
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+
+const MAX_TITLE_LENGTH = 60;
+const FALLBACK_TITLE_WORDS = 6;
+
+export interface TitleConfig {
+  /** Upper bound for the title LLM call; the heuristic is used after that. */
+  timeoutMs: number;
+}
+
+/**
+ * Names a conversation from its first exchange. Asks the LLM for a short
+ * title and falls back to the opening words of the user's message when the
+ * call fails, times out or returns nothing usable.
+ */
+export class TitleGenerator {
+  private llmAdapter: LlmAdapter;
+  private config: TitleConfig;
+
+  constructor(llmAdapter: LlmAdapter, config: TitleConfig) {
+    this.llmAdapter = llmAdapter;
+    this.config = config;
+  }
+
+  async generate(userContent: string, replyContent: string): Promise<string> {
+    try {
+      const response = await this.llmAdapter.complete({
+        messages: [
+          {
+            role: 'system',
+            content:
+              'You write short titles for chat conversations. Reply with the title only: ' +
+              'at most 6 words, no quotes, no trailing punctuation.',
+          },
+          {
+            role: 'user',
+            content: `User: ${userContent.slice(0, 1000)}\n\nAssistant: ${replyContent.slice(0, 1000)}`,
+          },
+        ],
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+        purpose: 'title',
+      });
+
+      const title = cleanTitle(response.completion);
+      if (title) {
+        return title;
+      }
+    } catch (error: any) {
+      logger.warn('Title generation failed, using fallback', { error: error.message });
+    }
+
+    return fallbackTitle(userContent);
+  }
+}
+
+function cleanTitle(raw: string): string {
+  const firstLine = raw.trim().split('\n')[0] ?? '';
+  const title = firstLine
+    .replace(/^title\s*:\s*/i, '')
+    .replace(/^["'`*#\s]+|["'`*\s]+$/g, '')
+    .replace(/[.!?:;,]+$/, '')
+    .trim();
+
+  return truncate(title);
+}
+
+export function fallbackTitle(userContent: string): string {
+  const words = userContent.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return DEFAULT_CONVERSATION_TITLE;
+  }
+
+  const title = words.slice(0, FALLBACK_TITLE_WORDS).join(' ');
+  return truncate(words.length > FALLBACK_TITLE_WORDS ? `${title}…` : title);
+}
+
+function truncate(title: string): string {
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title;
+}
@@ -0,0 +1,211 @@
+import { z } from 'zod';
+import { Tool } from './types';
+
+// Maps, so names like `constructor` or `toString` don't resolve to inherited members
+const FUNCTIONS = new Map<string, (...args: number[]) => number>([
+  ['sqrt', Math.sqrt],
+  ['abs', Math.abs],
+  ['round', Math.round],
+  ['floor', Math.floor],
+  ['ceil', Math.ceil],
+  ['sin', Math.sin],
+  ['cos', Math.cos],
+  ['tan', Math.tan],
+  ['asin', Math.asin],
+  ['acos', Math.acos],
+  ['atan', Math.atan],
+  ['exp', Math.exp],
+  ['ln', Math.log],
+  ['log', Math.log10],
+  ['log2', Math.log2],
+  ['pow', Math.pow],
+  ['min', Math.min],
+  ['max', Math.max],
+]);
+
+const CONSTANTS = new Map<string, number>([
+  ['pi', Math.PI],
+  ['e', Math.E],
+]);
+
+const args = z.object({
+  expression: z
+    .string()
+    .min(1)
+    .max(500)
+    .describe('Arithmetic expression, e.g. "(3.5 + 2) * 4^2 / sqrt(9)"'),
+});
+
+/**
+ * Evaluates arithmetic with its own parser, never `eval`: numbers, + - * / %
+ * ^, parentheses, and the functions and constants above.
+ */
+export const calculatorTool: Tool<typeof args> = {
+  name: 'calculator',
+  description:
+    'Evaluate an arithmetic expression exactly. Use it for any calculation instead of doing math yourself. ' +
+    `Supports + - * / % ^, parentheses, ${[...FUNCTIONS.keys()].join(', ')} and the constants pi and e.`,
+  args,
+  async execute({ expression }) {
+    const value = evaluate(expression);
+    return `${expression} = ${formatNumber(value)}`;
+  },
+};
+
+export function evaluate(expression: string): number {
+  const parser = new Parser(tokenize(expression));
+  const value = parser.parseExpression();
+  parser.expectEnd();
+
+  if (!Number.isFinite(value)) {
+    throw new Error('result is not a finite number');
+  }
+  return value;
+}
+
+type Token = { type: 'number'; value: number } | { type: 'name'; value: string } | { type: 'op'; value: string };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+(?:\.\d*)?(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)|([a-zA-Z_][a-zA-Z0-9_]*)|(\*\*|[-+*/%^(),]))/y;
+
+  let index = 0;
+  while (index < expression.length) {
+    if (/^\s*$/.test(expression.slice(index))) break;
+
+    pattern.lastIndex = index;
+    const match = pattern.exec(expression);
+    if (!match) {
+      throw new Error(`unexpected character "${expression.slice(index).trim()[0]}"`);
+    }
+
+    if (match[1] !== undefined) tokens.push({ type: 'number', value: Number(match[1]) });
+    else if (match[2] !== undefined) tokens.push({ type: 'name', value: match[2].toLowerCase() });
+    else tokens.push({ type: 'op', value: match[3] === '**' ? '^' : match[3] });
+    index = pattern.lastIndex;
+  }
+
+  return tokens;
+}
+
+// Precedence, lowest first: + -, then * / %, then unary minus, then ^ (right-associative)
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parseExpression(): number {
+    let value = this.parseTerm();
+    while (this.peekOp('+') || this.peekOp('-')) {
+      const op = this.next().value;
+      const right = this.parseTerm();
+      value = op === '+' ? value + right : value - right;
+    }
+    return value;
+  }
+
+  expectEnd() {
+    const token = this.tokens[this.position];
+    if (token) {
+      throw new Error(`unexpected "${token.value}"`);
+    }
+  }
+
+  private parseTerm(): number {
+    let value = this.parseUnary();
+    while (this.peekOp('*') || this.peekOp('/') || this.peekOp('%')) {
+      const op = this.next().value;
+      const right = this.parseUnary();
+      if (op === '*') value *= right;
+      else if (right === 0) throw new Error('division by zero');
+      else value = op === '/' ? value / right : value % right;
+    }
+    return value;
+  }
+
+  private parseUnary(): number {
+    if (this.peekOp('-')) {
+      this.next();
+      return -this.parseUnary();
+    }
+    if (this.peekOp('+')) {
+      this.next();
+      return this.parseUnary();
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): number {
+    const base = this.parsePrimary();
+    if (this.peekOp('^')) {
+      this.next();
+      return Math.pow(base, this.parseUnary());
+    }
+    return base;
+  }
+
+  private parsePrimary(): number {
+    const token = this.tokens[this.position];
+    if (!token) {
+      throw new Error('unexpected end of expression');
+    }
+
+    if (token.type === 'number') {
+      this.position++;
+      return token.value;
+    }
+
+    if (token.type === 'name') {
+      this.position++;
+      if (this.peekOp('(')) {
+        const fn = FUNCTIONS.get(token.value);
+        if (!fn) throw new Error(`unknown function "${token.value}"`);
+        return fn(...this.parseArguments());
+      }
+      const constant = CONSTANTS.get(token.value);
+      if (constant === undefined) throw new Error(`unknown name "${token.value}"`);
+      return constant;
+    }
+
+    if (token.value === '(') {
+      this.position++;
+      const value = this.parseExpression();
+      this.expectOp(')');
+      return value;
+    }
+
+    throw new Error(`unexpected "${token.value}"`);
+  }
+
+  private parseArguments(): number[] {
+    this.expectOp('(');
+    const values = [this.parseExpression()];
+    while (this.peekOp(',')) {
+      this.next();
+      values.push(this.parseExpression());
+    }
+    this.expectOp(')');
+    return values;
+  }
+
+  private peekOp(op: string): boolean {
+    const token = this.tokens[this.position];
+    return token?.type === 'op' && token.value === op;
+  }
+
+  private expectOp(op: string) {
+    if (!this.peekOp(op)) {
+      throw new Error(`expected "${op}"`);
+    }
+    this.position++;
+  }
+
+  private next(): Token {
+    return this.tokens[this.position++];
+  }
+}
+
+// Hide floating-point noise such as 0.1 + 0.2 = 0.30000000000000004
+function formatNumber(value: number): string {
+  return String(Number(value.toPrecision(12)));
+}
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { SearchService } from '../searchService';
+import { Tool } from './types';
+
+const args = z.object({
+  query: z
+    .string()
+    .trim()
+    .min(1)
+    .max(200)
+    .describe('Full-text query; quoted phrases, "or" and -excluded terms work'),
+  limit: z.number().int().min(1).max(10).optional().describe('Conversations to return (default 5)'),
+});
+
+/**
+ * Read-only search over the requesting user's own conversations. It goes
+ * through `SearchService`, so it can't see other users' messages, and
+ * returns excerpts rather than whole conversations.
+ */
+export function createConversationSearchTool(searchService: SearchService): Tool<typeof args> {
+  return {
+    name: 'search_conversations',
+    description:
+      'Search the user\'s earlier conversations for messages matching a query. ' +
+      'Use it when the user refers to something discussed before.',
+    args,
+    async execute({ query, limit = 5 }, context) {
+      const results = await searchService.search(context.ownerId, query, limit);
+      if (results.length === 0) {
+        return `No conversations match "${query}".`;
+      }
+
+      return results
+        .map((result) => {
+          const current = result.conversationId === context.conversationId ? ' (this conversation)' : '';
+          const matches = result.matches.map(
+            (m) => `- ${m.role} on ${m.createdAt.slice(0, 10)}: ${m.snippet.replace(/<\/?mark>/g, '')}`
+          );
+          return [`"${result.title}"${current}`, ...matches].join('\n');
+        })
+        .join('\n\n');
+    },
+  };
+}
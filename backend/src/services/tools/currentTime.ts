@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { Tool } from './types';
+
+const args = z.object({
+  timeZone: z
+    .string()
+    .max(64)
+    .optional()
+    .describe('IANA time zone such as "Europe/Paris"; defaults to UTC'),
+});
+
+export const currentTimeTool: Tool<typeof args> = {
+  name: 'current_time',
+  description:
+    'Get the current date and time. Use it whenever the answer depends on today\'s date or the time of day.',
+  args,
+  async execute({ timeZone = 'UTC' }) {
+    const now = new Date();
+
+    let formatted: string;
+    try {
+      formatted = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        dateStyle: 'full',
+        timeStyle: 'long',
+      }).format(now);
+    } catch {
+      throw new Error(`unknown time zone "${timeZone}"`);
+    }
+
+    return `${formatted} (${timeZone}); ISO 8601 UTC: ${now.toISOString()}`;
+  },
+};
@@ -0,0 +1,13 @@
+import { SearchService } from '../searchService';
+import { Tool } from './types';
+import { calculatorTool } from './calculator';
+import { currentTimeTool } from './currentTime';
+import { createConversationSearchTool } from './conversationSearch';
+
+export * from './types';
+export * from './registry';
+
+/** Every built-in tool; `TOOLS` picks which ones are offered to the model. */
+export function createBuiltinTools(deps: { searchService: SearchService }): Tool[] {
+  return [calculatorTool, currentTimeTool, createConversationSearchTool(deps.searchService)];
+}
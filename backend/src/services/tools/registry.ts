@@ -0,0 +1,108 @@
+import { ZodSchema } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ToolCall, ToolDefinition } from '../llm';
+import { Tool, ToolContext, ToolStep } from './types';
+import { toolCalls as toolCallsMetric } from '../../utils/metrics';
+import { logger } from '../../utils/logger';
+
+export interface ToolRegistryConfig {
+  /** Names of the tools offered to the model; unknown names are ignored. */
+  enabled: string[];
+  /** Time a single tool call may take. */
+  timeoutMs: number;
+  /** Model turns that may request tools before the model must answer. */
+  maxIterations: number;
+}
+
+// Tool results go back into the prompt, so they are capped like any input
+const MAX_RESULT_LENGTH = 4000;
+
+/**
+ * Tools the model may call, by name. Failures (unknown tool, invalid
+ * arguments, errors, timeouts) become error results the model can react to;
+ * they never fail the user's turn.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, Tool>();
+  private toolDefinitions: ToolDefinition[];
+  readonly config: ToolRegistryConfig;
+
+  constructor(tools: Tool[], config: ToolRegistryConfig) {
+    this.config = config;
+    for (const tool of tools) {
+      if (config.enabled.includes(tool.name)) {
+        this.tools.set(tool.name, tool);
+      }
+    }
+
+    this.toolDefinitions = [...this.tools.values()].map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: toJsonSchema(tool.args),
+    }));
+  }
+
+  /** Definitions to send with a completion request; empty when no tool is enabled. */
+  definitions(): ToolDefinition[] {
+    return this.toolDefinitions;
+  }
+
+  async execute(call: ToolCall, context: ToolContext): Promise<ToolStep> {
+    const started = Date.now();
+    const step = (result: string, isError: boolean): ToolStep => ({
+      id: call.id,
+      name: call.name,
+      arguments: call.arguments,
+      result: truncate(result),
+      isError,
+      durationMs: Date.now() - started,
+    });
+
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      toolCallsMetric.inc({ tool: 'unknown', outcome: 'error' });
+      return step(`Error: unknown tool "${call.name}"`, true);
+    }
+
+    const parsed = tool.args.safeParse(call.arguments);
+    if (!parsed.success) {
+      toolCallsMetric.inc({ tool: tool.name, outcome: 'invalid_arguments' });
+      const issues = parsed.error.errors.map((e) => `${e.path.join('.') || 'arguments'}: ${e.message}`);
+      return step(`Error: invalid arguments (${issues.join('; ')})`, true);
+    }
+
+    try {
+      const result = await withTimeout(
+        tool.execute(parsed.data, context),
+        this.config.timeoutMs,
+        tool.name
+      );
+      toolCallsMetric.inc({ tool: tool.name, outcome: 'success' });
+      logger.info('Tool call succeeded', { tool: tool.name, durationMs: Date.now() - started });
+      return step(result, false);
+    } catch (error: any) {
+      if (context.signal?.aborted) throw error;
+      toolCallsMetric.inc({ tool: tool.name, outcome: 'error' });
+      logger.warn('Tool call failed', { tool: tool.name, error: error.message });
+      return step(`Error: ${error.message}`, true);
+    }
+  }
+}
+
+function toJsonSchema(schema: ZodSchema): Record<string, unknown> {
+  return zodToJsonSchema(schema, { target: 'openApi3' }) as Record<string, unknown>;
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, name: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${name} timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function truncate(result: string): string {
+  return result.length > MAX_RESULT_LENGTH
+    ? `${result.slice(0, MAX_RESULT_LENGTH)}\n[truncated ${result.length - MAX_RESULT_LENGTH} characters]`
+    : result;
+}
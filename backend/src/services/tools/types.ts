@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+/** What a tool may act on: the requesting user's data, nothing else. */
+export interface ToolContext {
+  ownerId: string;
+  conversationId: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * A function the model can call. `args` validates the model's arguments and
+ * is also published to the model as the tool's JSON Schema.
+ */
+export interface Tool<Args extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  /** Tells the model when to use the tool; keep it to a sentence or two. */
+  description: string;
+  args: Args;
+  /** Returns the text the model sees as the tool's result. */
+  execute(args: z.infer<Args>, context: ToolContext): Promise<string>;
+}
+
+/** One executed call, stored on the assistant reply and shown in the UI. */
+export interface ToolStep {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  result: string;
+  isError: boolean;
+  durationMs: number;
+}
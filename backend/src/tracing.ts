@@ -0,0 +1,38 @@
+/**
+ * Optional OpenTelemetry tracing. Must be imported before anything else in
+ * `index.ts` so the http, express and Prisma instrumentations can patch
+ * those modules as they load.
+ *
+ * Enabled when OTEL_EXPORTER_OTLP_ENDPOINT is set (e.g.
+ * http://otel-collector:4318); spans are exported over OTLP/HTTP. When it
+ * is unset the OpenTelemetry API stays a no-op and nothing is patched.
+ */
+import { NodeSDK } from '@opentelemetry/sdk-node';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { HttpInstrumentation } from '@opentelemetry/instrumentation-http';
+import { ExpressInstrumentation } from '@opentelemetry/instrumentation-express';
+import { PrismaInstrumentation } from '@prisma/instrumentation';
+
+const sdk = process.env.OTEL_EXPORTER_OTLP_ENDPOINT
+  ? new NodeSDK({
+      serviceName: process.env.OTEL_SERVICE_NAME || 'mini-chatgpt-backend',
+      // Reads OTEL_EXPORTER_OTLP_ENDPOINT and OTEL_EXPORTER_OTLP_HEADERS
+      traceExporter: new OTLPTraceExporter(),
+      instrumentations: [
+        new HttpInstrumentation({
+          // Probe and scrape traffic would drown out real requests
+          ignoreIncomingRequestHook: (req) =>
+            ['/healthz', '/readyz', '/metrics'].includes(req.url ?? ''),
+        }),
+        new ExpressInstrumentation(),
+        new PrismaInstrumentation(),
+      ],
+    })
+  : null;
+
+sdk?.start();
+
+/** Flushes buffered spans; call before the process exits. */
+export async function shutdownTracing(): Promise<void> {
+  await sdk?.shutdown();
+}
@@ -1,16 +1,108 @@
-import { LlmConfig } from '../services/llm';
+import { LlmConfig, LlmProvider } from '../services/llm';
+
+function optionalNumber(value: string | undefined): number | undefined {
+  return value ? Number(value) : undefined;
+}
+
+// Only local development and tests may sign sessions with a well-known secret
+function jwtSecret(): string {
+  if (process.env.JWT_SECRET) return process.env.JWT_SECRET;
+  if (process.env.NODE_ENV === 'development' || process.env.NODE_ENV === 'test') {
+    return 'dev-only-secret-change-me';
+  }
+  throw new Error('JWT_SECRET must be set unless NODE_ENV is development or test');
+}
 
 export const config = {
   port: parseInt(process.env.PORT || '3001', 10),
   databaseUrl: process.env.DATABASE_URL || '',
+  // Origin the frontend is served from; the only one allowed to call the API
+  // with credentials or open the sync socket
+  appOrigin: process.env.APP_ORIGIN || 'http://localhost:3000',
 
   llm: {
-    provider: (process.env.LLM_PROVIDER || 'mock') as 'mock' | 'ollama',
+    provider: (process.env.LLM_PROVIDER || 'mock') as LlmConfig['provider'],
+    fallbackProviders: process.env.LLM_FALLBACK_PROVIDERS
+      ? (process.env.LLM_FALLBACK_PROVIDERS.split(',').map((p) => p.trim()) as LlmProvider[])
+      : [],
+    circuitFailureThreshold: parseInt(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD || '3', 10),
+    circuitResetMs: parseInt(process.env.LLM_CIRCUIT_RESET_MS || '30000', 10),
     mockBaseUrl: process.env.MOCK_LLM_BASE_URL || 'http://mock-llm:8080',
     ollamaBaseUrl: process.env.OLLAMA_BASE_URL || 'http://ollama:11434',
     ollamaModel: process.env.OLLAMA_MODEL || 'llama3',
+    ollamaTemperature: optionalNumber(process.env.OLLAMA_TEMPERATURE),
+    ollamaNumCtx: optionalNumber(process.env.OLLAMA_NUM_CTX),
+    ollamaStop: process.env.OLLAMA_STOP ? process.env.OLLAMA_STOP.split(',') : undefined,
+    ollamaEmbedModel: process.env.OLLAMA_EMBED_MODEL || 'nomic-embed-text',
+    openaiBaseUrl: process.env.OPENAI_BASE_URL || 'http://mock-llm:8080/v1',
+    openaiApiKey: process.env.OPENAI_API_KEY || undefined,
+    openaiModel: process.env.OPENAI_MODEL || 'mock-gpt',
+    openaiTemperature: optionalNumber(process.env.OPENAI_TEMPERATURE),
+    openaiTopP: optionalNumber(process.env.OPENAI_TOP_P),
+    openaiMaxTokens: optionalNumber(process.env.OPENAI_MAX_TOKENS),
+    openaiEmbedModel: process.env.OPENAI_EMBED_MODEL || 'text-embedding-3-small',
     timeout: parseInt(process.env.LLM_TIMEOUT_MS || '12000', 10),
     maxRetries: parseInt(process.env.LLM_MAX_RETRIES || '2', 10),
     retryDelayMs: parseInt(process.env.LLM_RETRY_DELAY_MS || '1000', 10),
   } as LlmConfig,
+
+  context: {
+    tokenBudget: parseInt(process.env.CONTEXT_TOKEN_BUDGET || '3000', 10),
+    summarize: process.env.CONTEXT_SUMMARIZE === 'true',
+  },
+
+  title: {
+    timeoutMs: parseInt(process.env.TITLE_TIMEOUT_MS || '5000', 10),
+  },
+
+  attachments: {
+    maxBytes: parseInt(process.env.ATTACHMENT_MAX_BYTES || '262144', 10),
+    maxFiles: parseInt(process.env.ATTACHMENT_MAX_FILES || '5', 10),
+  },
+
+  knowledge: {
+    topK: parseInt(process.env.RAG_TOP_K || '4', 10),
+    minScore: parseFloat(process.env.RAG_MIN_SCORE || '0.3'),
+    chunkSize: parseInt(process.env.RAG_CHUNK_SIZE || '1000', 10),
+    chunkOverlap: parseInt(process.env.RAG_CHUNK_OVERLAP || '150', 10),
+    maxBytes: parseInt(process.env.RAG_MAX_DOCUMENT_BYTES || '1048576', 10),
+  },
+
+  tools: {
+    enabled: (process.env.TOOLS ?? 'calculator,current_time,search_conversations')
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean),
+    timeoutMs: parseInt(process.env.TOOL_TIMEOUT_MS || '5000', 10),
+    maxIterations: parseInt(process.env.TOOL_MAX_ITERATIONS || '4', 10),
+  },
+
+  jobs: {
+    concurrency: parseInt(process.env.JOB_CONCURRENCY || '4', 10),
+    pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000', 10),
+    heartbeatMs: parseInt(process.env.JOB_HEARTBEAT_MS || '5000', 10),
+    maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '3', 10),
+  },
+
+  sync: {
+    pollIntervalMs: parseInt(process.env.SYNC_POLL_INTERVAL_MS || '1000', 10),
+    retentionMs: parseInt(process.env.SYNC_RETENTION_MS || '86400000', 10),
+  },
+
+  rateLimit: {
+    requestsPerMinute: parseInt(process.env.RATE_LIMIT_PER_MINUTE || '20', 10),
+    maxConcurrent: parseInt(process.env.RATE_LIMIT_CONCURRENT || '2', 10),
+  },
+
+  quota: {
+    dailyMessages: parseInt(process.env.DAILY_MESSAGE_QUOTA || '0', 10),
+    dailyTokens: parseInt(process.env.DAILY_TOKEN_QUOTA || '0', 10),
+  },
+
+  auth: {
+    jwtSecret: jwtSecret(),
+    sessionTtlSeconds: parseInt(process.env.SESSION_TTL_SECONDS || '604800', 10),
+    secureCookies: process.env.COOKIE_SECURE === 'true',
+    allowRegistration: process.env.ALLOW_REGISTRATION !== 'false',
+  },
 };
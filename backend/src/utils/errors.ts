@@ -0,0 +1,110 @@
+/**
+ * Stable, machine-readable error codes. They are part of the API contract:
+ * clients switch on `code`, never on the human-readable `error` message.
+ */
+export type ErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'UNPROCESSABLE'
+  | 'RATE_LIMITED'
+  | 'UPSTREAM_ERROR'
+  | 'UPSTREAM_TIMEOUT'
+  | 'INTERNAL_ERROR';
+
+/** Default wait suggested to clients after an upstream LLM failure. */
+const UPSTREAM_RETRY_AFTER_MS = 1000;
+
+interface AppErrorOptions {
+  retryAfterMs?: number;
+  details?: unknown;
+  cause?: unknown;
+}
+
+/** Base class for errors that map to a specific HTTP status and error code. */
+export class AppError extends Error {
+  readonly status: number;
+  readonly code: ErrorCode;
+  readonly retryAfterMs?: number;
+  readonly details?: unknown;
+
+  constructor(message: string, status: number, code: ErrorCode, options: AppErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.status = status;
+    this.code = code;
+    this.retryAfterMs = options.retryAfterMs;
+    this.details = options.details;
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(message: string = 'Validation error', details?: unknown) {
+    super(message, 400, 'VALIDATION_ERROR', { details });
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message: string = 'Authentication required') {
+    super(message, 401, 'UNAUTHORIZED');
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string = 'Forbidden') {
+    super(message, 403, 'FORBIDDEN');
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string = 'Not found') {
+    super(message, 404, 'NOT_FOUND');
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string) {
+    super(message, 409, 'CONFLICT');
+  }
+}
+
+/** Well-formed, but can't be carried out as sent. */
+export class UnprocessableError extends AppError {
+  constructor(message: string) {
+    super(message, 422, 'UNPROCESSABLE');
+  }
+}
+
+export class RateLimitedError extends AppError {
+  constructor(message: string, retryAfterMs: number) {
+    super(message, 429, 'RATE_LIMITED', { retryAfterMs });
+  }
+}
+
+/** The LLM provider answered with an error or a response we could not use. */
+export class UpstreamError extends AppError {
+  /** HTTP status returned by the provider, when there was one. */
+  readonly upstreamStatus?: number;
+
+  constructor(message: string, options: { upstreamStatus?: number; cause?: unknown } = {}) {
+    super(message, 502, 'UPSTREAM_ERROR', {
+      retryAfterMs: UPSTREAM_RETRY_AFTER_MS,
+      cause: options.cause,
+    });
+    this.upstreamStatus = options.upstreamStatus;
+  }
+
+  /** Provider-side failures (5xx) may succeed on retry; 4xx responses won't. */
+  get retryable(): boolean {
+    return this.upstreamStatus !== undefined && this.upstreamStatus >= 500;
+  }
+}
+
+/** The LLM provider did not answer within the configured timeout. */
+export class UpstreamTimeoutError extends AppError {
+  constructor(message: string = 'Upstream timeout') {
+    super(message, 504, 'UPSTREAM_TIMEOUT', { retryAfterMs: UPSTREAM_RETRY_AFTER_MS });
+  }
+}
@@ -1,9 +1,29 @@
 import winston from 'winston';
 import { v4 as uuidv4 } from 'uuid';
+import { trace } from '@opentelemetry/api';
+import { getCorrelationId } from './requestContext';
+
+/**
+ * Adds the current request's correlation id (and trace id, when a span is
+ * active) to every entry that doesn't set them explicitly.
+ */
+const requestContext = winston.format((info) => {
+  if (info.correlationId === undefined) {
+    const correlationId = getCorrelationId();
+    if (correlationId) info.correlationId = correlationId;
+  }
+
+  const spanContext = trace.getActiveSpan()?.spanContext();
+  if (spanContext && info.traceId === undefined) {
+    info.traceId = spanContext.traceId;
+  }
+  return info;
+});
 
 const logger = winston.createLogger({
   level: process.env.LOG_LEVEL || 'info',
   format: winston.format.combine(
+    requestContext(),
     winston.format.timestamp(),
     winston.format.errors({ stack: true }),
     winston.format.json()
@@ -0,0 +1,81 @@
+import client from 'prom-client';
+
+/**
+ * Prometheus metrics, served in text format at `GET /metrics`.
+ * Label values are kept to small fixed sets (route patterns, provider names,
+ * outcome names) so series counts stay bounded.
+ */
+export const registry = new client.Registry();
+
+client.collectDefaultMetrics({ register: registry });
+
+export const httpRequestDuration = new client.Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request duration by route pattern and status code',
+  labelNames: ['method', 'route', 'status'] as const,
+  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [registry],
+});
+
+export const llmCallDuration = new client.Histogram({
+  name: 'llm_call_duration_seconds',
+  help: 'LLM call latency including retries, by provider, call type and outcome',
+  labelNames: ['provider', 'type', 'outcome'] as const,
+  // The default adapter timeout is 12s per attempt, with up to 3 attempts
+  buckets: [0.25, 0.5, 1, 2, 4, 8, 12, 20, 30, 45],
+  registers: [registry],
+});
+
+export const llmAttempts = new client.Counter({
+  name: 'llm_attempts_total',
+  help: 'Individual LLM HTTP attempts made by fetchWithRetry',
+  labelNames: ['provider'] as const,
+  registers: [registry],
+});
+
+export const llmRetries = new client.Counter({
+  name: 'llm_retries_total',
+  help: 'LLM attempts that failed and were retried, by reason (timeout, server_error)',
+  labelNames: ['provider', 'reason'] as const,
+  registers: [registry],
+});
+
+export const llmTimeouts = new client.Counter({
+  name: 'llm_timeouts_total',
+  help: 'LLM attempts that hit the per-attempt timeout, whether or not they were retried',
+  labelNames: ['provider'] as const,
+  registers: [registry],
+});
+
+export const llmTokens = new client.Counter({
+  name: 'llm_tokens_total',
+  help: 'Tokens reported by the provider, by kind (prompt, completion)',
+  labelNames: ['provider', 'kind'] as const,
+  registers: [registry],
+});
+
+export const toolCalls = new client.Counter({
+  name: 'tool_calls_total',
+  help: 'Tool calls requested by the model, by tool and outcome',
+  labelNames: ['tool', 'outcome'] as const,
+  registers: [registry],
+});
+
+export const generationsInFlight = new client.Gauge({
+  name: 'generations_in_flight',
+  help: 'Assistant replies currently being generated',
+  registers: [registry],
+});
+
+export const syncConnections = new client.Gauge({
+  name: 'sync_connections',
+  help: 'Open WebSocket connections pushing conversation changes',
+  registers: [registry],
+});
+
+export const generationJobs = new client.Counter({
+  name: 'generation_jobs_total',
+  help: 'Generation jobs that left the running state, by outcome',
+  labelNames: ['outcome'] as const,
+  registers: [registry],
+});
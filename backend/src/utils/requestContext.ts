@@ -0,0 +1,49 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { context, propagation } from '@opentelemetry/api';
+
+export interface RequestContext {
+  correlationId: string;
+  /** User the work is done for, once known; LLM usage is charged to them. */
+  userId?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs `fn` with `ctx` as the current request context. Everything started
+ * from `fn` (awaited calls, timers, event handlers) sees the same context.
+ */
+export function runWithRequestContext<T>(ctx: RequestContext, fn: () => T): T {
+  return storage.run(ctx, fn);
+}
+
+/** Correlation id of the request being handled, if any. */
+export function getCorrelationId(): string | undefined {
+  return storage.getStore()?.correlationId;
+}
+
+/** Records the authenticated user on the current request context. */
+export function setRequestUser(userId: string) {
+  const ctx = storage.getStore();
+  if (ctx) ctx.userId = userId;
+}
+
+/** User the current request or job acts for, if any. */
+export function getRequestUserId(): string | undefined {
+  return storage.getStore()?.userId;
+}
+
+/**
+ * Headers for outgoing calls made on behalf of the current request: the
+ * correlation id plus W3C trace context (`traceparent`) when tracing is on.
+ */
+export function propagationHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {};
+  propagation.inject(context.active(), headers);
+
+  const correlationId = getCorrelationId();
+  if (correlationId) {
+    headers['X-Correlation-ID'] = correlationId;
+  }
+  return headers;
+}
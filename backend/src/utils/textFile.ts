@@ -0,0 +1,42 @@
+import path from 'path';
+import { ValidationError } from './errors';
+
+// Text formats only: file contents are pasted into prompts verbatim
+const ALLOWED_EXTENSIONS = new Set([
+  '.txt', '.md', '.markdown', '.log', '.csv', '.tsv', '.json', '.jsonl', '.xml',
+  '.yaml', '.yml', '.toml', '.ini', '.cfg', '.conf', '.env', '.sql', '.html', '.css',
+  '.scss', '.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.py', '.rb', '.go', '.rs',
+  '.java', '.kt', '.scala', '.swift', '.c', '.h', '.cpp', '.hpp', '.cs', '.php',
+  '.sh', '.bash', '.zsh', '.lua', '.r', '.pl', '.prisma', '.graphql', '.proto',
+]);
+const ALLOWED_FILENAMES = new Set(['Dockerfile', 'Makefile', 'Procfile', '.gitignore']);
+
+/** An uploaded file as parsed by multer's memory storage. */
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+/** Accepts known text extensions whose bytes are valid UTF-8 without NULs. */
+export function decodeTextFile(file: UploadedFile): string {
+  const name = path.basename(file.originalname);
+  const ext = path.extname(name).toLowerCase();
+  if (!ALLOWED_EXTENSIONS.has(ext) && !ALLOWED_FILENAMES.has(name)) {
+    throw new ValidationError(`Unsupported file type: ${name}`);
+  }
+
+  let content: string;
+  try {
+    content = new TextDecoder('utf-8', { fatal: true }).decode(file.buffer);
+  } catch {
+    throw new ValidationError(`${name} is not a UTF-8 text file`);
+  }
+  if (content.includes('\u0000')) {
+    throw new ValidationError(`${name} is not a text file`);
+  }
+
+  // TextDecoder drops a leading BOM by default
+  return content;
+}
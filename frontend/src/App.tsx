@@ -1,11 +1,24 @@
-import { useState, useEffect } from 'react';
-import { api } from './api';
-import { Conversation, ConversationDetail, Message } from './types';
+import { useState, useEffect, useRef } from 'react';
+import { api, setUnauthorizedHandler } from './api';
+import {
+  Conversation,
+  ConversationDetail,
+  GenerationJob,
+  Message,
+  SearchMatch,
+  SyncEvent,
+  ToolStep,
+  User,
+} from './types';
 import { ConversationList } from './components/ConversationList';
+import { KnowledgeBase } from './components/KnowledgeBase';
 import { ChatArea } from './components/ChatArea';
+import { LoginScreen } from './components/LoginScreen';
 import './App.css';
 
 export default function App() {
+  // undefined while the session is being checked, null when signed out
+  const [user, setUser] = useState<User | null | undefined>(undefined);
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [selectedConvId, setSelectedConvId] = useState<string | null>(null);
   const [currentConv, setCurrentConv] = useState<ConversationDetail | null>(null);
@@ -15,18 +28,51 @@ export default function App() {
   const [deletedConv, setDeletedConv] = useState<Conversation | null>(null);
   const [undoTimeout, setUndoTimeout] = useState<NodeJS.Timeout | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
+  const [streamingToolSteps, setStreamingToolSteps] = useState<ToolStep[]>([]);
+  // Reply still being generated when the conversation was opened, e.g. after a reload
+  const [pendingJob, setPendingJob] = useState<GenerationJob | null>(null);
+  // Stops following a job without cancelling it, when another conversation is opened
+  const followingRef = useRef<AbortController | null>(null);
+  // Message opened from search; the conversation is loaded around it
+  const [jumpTarget, setJumpTarget] = useState<{ messageId: string } | null>(null);
+  // Read by sync events, which arrive outside of renders
+  const currentConvRef = useRef<ConversationDetail | null>(null);
+  currentConvRef.current = currentConv;
 
   useEffect(() => {
-    loadConversations();
+    setUnauthorizedHandler(() => setUser(null));
+    api
+      .me()
+      .then(setUser)
+      .catch(() => setUser(null));
+    return () => setUnauthorizedHandler(null);
   }, []);
 
   useEffect(() => {
+    if (user) {
+      loadConversations();
+    } else {
+      setConversations([]);
+      setSelectedConvId(null);
+    }
+  }, [user]);
+
+  // Changes made in other tabs and devices, and replies stored by background jobs
+  useEffect(() => {
+    if (!user) return;
+    return api.subscribeToChanges({ onEvent: applySyncEvent, onReset: handleSyncReset });
+  }, [user]);
+
+  useEffect(() => {
+    followingRef.current?.abort();
+    setPendingJob(null);
     if (selectedConvId) {
-      loadConversation(selectedConvId);
+      loadConversation(selectedConvId, jumpTarget?.messageId);
     } else {
       setCurrentConv(null);
     }
-  }, [selectedConvId]);
+  }, [selectedConvId, jumpTarget]);
 
   async function loadConversations() {
     try {
@@ -40,19 +86,186 @@ export default function App() {
     }
   }
 
-  async function loadConversation(id: string) {
+  async function loadConversation(id: string, aroundMessageId?: string) {
     try {
-      const conv = await api.getConversation(id);
+      const conv = aroundMessageId
+        ? await getConversationAround(id, aroundMessageId)
+        : await api.getConversation(id);
       setCurrentConv(conv);
+      const [job] = await api.listJobs(id);
+      setPendingJob(job ?? null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
+  function applySyncEvent(event: SyncEvent) {
+    const { conversationId } = event;
+
+    switch (event.type) {
+      case 'conversation.created': {
+        const { conversation } = event.data;
+        setConversations((prev) =>
+          prev.some((c) => c.id === conversation.id) ? prev : [conversation, ...prev]
+        );
+        break;
+      }
+      case 'conversation.updated': {
+        const { activeLeafId, ...conversation } = event.data.conversation;
+        setConversations((prev) =>
+          prev.map((c) => (c.id === conversation.id ? { ...c, title: conversation.title } : c))
+        );
+        setCurrentConv((prev) =>
+          prev?.id === conversation.id ? { ...prev, ...conversation } : prev
+        );
+
+        const conv = currentConvRef.current;
+        const last = conv?.messages[conv.messages.length - 1];
+        if (activeLeafId && conv?.id === conversationId && last?.id !== activeLeafId) {
+          reloadCurrentConversation(conversationId);
+        }
+        break;
+      }
+      case 'conversation.deleted':
+        setConversations((prev) => prev.filter((c) => c.id !== conversationId));
+        setSelectedConvId((prev) => (prev === conversationId ? null : prev));
+        break;
+      case 'message.created': {
+        const { message } = event.data;
+        setConversations((prev) =>
+          prev.map((c) =>
+            c.id === conversationId ? { ...c, lastMessageAt: message.createdAt } : c
+          )
+        );
+
+        const conv = currentConvRef.current;
+        if (conv?.id !== conversationId) break;
+        // A reply this tab is following shows up when the job's done
+        if (message.role === 'assistant' && followingRef.current) break;
+
+        const last = conv.messages[conv.messages.length - 1];
+        if (conv.messages.some((m) => m.id === message.id)) {
+          break;
+        } else if (!conv.pageInfo.prevCursor && (last?.id ?? null) === message.parentId) {
+          setCurrentConv((prev) =>
+            prev?.id === conversationId && !prev.messages.some((m) => m.id === message.id)
+              ? { ...prev, messages: [...prev.messages, message] }
+              : prev
+          );
+        } else {
+          // A new version of an earlier turn changes the branch and its version counts
+          reloadCurrentConversation(conversationId);
+        }
+        break;
+      }
+      case 'message.status': {
+        const { messageId, status, failureReason } = event.data;
+        setCurrentConv((prev) =>
+          prev?.id === conversationId
+            ? {
+                ...prev,
+                messages: prev.messages.map((m) =>
+                  m.id === messageId ? { ...m, status, failureReason } : m
+                ),
+              }
+            : prev
+        );
+        break;
+      }
+    }
+  }
+
+  // Events were missed (or this is the first connect): load everything again
+  function handleSyncReset() {
+    loadConversations();
+    if (currentConvRef.current) {
+      reloadCurrentConversation(currentConvRef.current.id);
+    }
+  }
+
+  async function reloadCurrentConversation(id: string) {
+    try {
+      const conv = await api.getConversation(id);
+      setCurrentConv((prev) => (prev?.id === id ? conv : prev));
+    } catch {
+      // Shown as it was; the next change or a reload tries again
+    }
+  }
+
+  function handleSelectConversation(id: string) {
+    setJumpTarget(null);
+    setSelectedConvId(id);
+    setSidebarOpen(false);
+  }
+
+  async function handleOpenSearchMatch(conversationId: string, match: SearchMatch) {
+    try {
+      // Show the version of the conversation that contains the match
+      if (!match.onActiveBranch) {
+        await api.selectBranch(conversationId, match.messageId, 1);
+      }
+      setJumpTarget({ messageId: match.messageId });
+      setSelectedConvId(conversationId);
+      setSidebarOpen(false);
     } catch (err: any) {
       setError(err.message);
     }
   }
 
+  async function handleLoadOlder() {
+    const cursor = currentConv?.pageInfo.nextCursor;
+    if (!currentConv || !cursor) return;
+
+    try {
+      const page = await api.getConversation(currentConv.id, cursor);
+      setCurrentConv((prev) =>
+        prev && prev.id === page.id
+          ? {
+              ...prev,
+              messages: mergeMessages(page.messages, prev.messages),
+              pageInfo: { ...prev.pageInfo, nextCursor: page.pageInfo.nextCursor },
+            }
+          : prev
+      );
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
+  async function handleLoadNewer() {
+    const cursor = currentConv?.pageInfo.prevCursor;
+    if (!currentConv || !cursor) return;
+
+    try {
+      const page = await api.getConversation(currentConv.id, cursor);
+      setCurrentConv((prev) =>
+        prev && prev.id === page.id
+          ? {
+              ...prev,
+              messages: mergeMessages(prev.messages, page.messages),
+              pageInfo: { ...prev.pageInfo, prevCursor: page.pageInfo.prevCursor },
+            }
+          : prev
+      );
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
+  async function handleLogout() {
+    try {
+      await api.logout();
+    } finally {
+      setUser(null);
+    }
+  }
+
   async function handleNewConversation() {
     try {
       const newConv = await api.createConversation();
-      setConversations((prev) => [newConv, ...prev]);
+      setConversations((prev) =>
+        prev.some((c) => c.id === newConv.id) ? prev : [newConv, ...prev]
+      );
       setSelectedConvId(newConv.id);
       setSidebarOpen(false);
     } catch (err: any) {
@@ -104,28 +317,165 @@ export default function App() {
     }
   }
 
-  async function handleSendMessage(content: string, abortSignal: AbortSignal) {
-    if (!currentConv) return;
+  async function handleRenameConversation(id: string, title: string) {
+    try {
+      const updated = await api.updateConversation(id, { title });
+      setConversations((prev) =>
+        prev.map((c) => (c.id === id ? { ...c, title: updated.title } : c))
+      );
+      setCurrentConv((prev) => (prev && prev.id === id ? { ...prev, title: updated.title } : prev));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
 
+  async function handleImportFile(file: File) {
     try {
-      const result = await api.sendMessage(currentConv.id, content, abortSignal);
-
-      // Add both messages to current conversation
-      setCurrentConv((prev) => {
-        if (!prev) return null;
-        return {
-          ...prev,
-          messages: [...prev.messages, result.message, result.reply],
-        };
-      });
-
-      // Update conversation in list
+      const text = await file.text();
+      // A JSONL file holds one conversation per line; anything else is one JSON export
+      const records = file.name.endsWith('.jsonl')
+        ? text.split('\n').filter((line) => line.trim()).map((line) => JSON.parse(line))
+        : [JSON.parse(text)];
+
+      let imported: Conversation | null = null;
+      for (const record of records) {
+        imported = await api.importConversation(record);
+      }
+
       await loadConversations();
+      if (imported) handleSelectConversation(imported.id);
+    } catch (err: any) {
+      setError(`Import failed: ${err.message}`);
+    }
+  }
+
+  async function handleSendMessage(
+    content: string,
+    attachmentIds: string[],
+    abortSignal: AbortSignal
+  ) {
+    if (!currentConv) return;
+
+    // New messages go at the end of the branch; make sure the end is shown
+    if (currentConv.pageInfo.prevCursor) {
+      setCurrentConv(await api.getConversation(currentConv.id));
+    }
+
+    // Show the stored user message right away, then the reply as it arrives
+    const { job, message } = await api.sendMessage(currentConv.id, { content, attachmentIds });
+    setCurrentConv((prev) => {
+      // The sync socket may have added it already
+      if (!prev || prev.messages.some((m) => m.id === message.id)) return prev;
+      return { ...prev, messages: [...prev.messages, message] };
+    });
+    await handleFollowJob(job, abortSignal);
+  }
+
+  /**
+   * Shows a job's reply as it is generated, then reloads the conversation to
+   * show it stored. Aborting `abortSignal` (the Cancel button) cancels the job;
+   * opening another conversation only stops following it.
+   */
+  async function handleFollowJob(job: GenerationJob, abortSignal: AbortSignal) {
+    const detach = new AbortController();
+    followingRef.current?.abort();
+    followingRef.current = detach;
+    const signal = new AbortController();
+    abortSignal.addEventListener('abort', () => signal.abort());
+    detach.signal.addEventListener('abort', () => signal.abort());
+
+    setStreamingReply('');
+    try {
+      const finished = await api.followJob(
+        job.id,
+        {
+          onProgress: (progress) => {
+            setStreamingReply(progress?.content ?? '');
+            setStreamingToolSteps(progress?.toolCalls ?? []);
+          },
+          onToken: (token) => {
+            setStreamingReply((prev) => (prev ?? '') + token);
+          },
+          // Text streamed before a tool call isn't part of the reply
+          onToolStep: (step) => {
+            setStreamingToolSteps((prev) => [...prev, step]);
+            setStreamingReply('');
+          },
+        },
+        signal.signal
+      );
+
+      // A failed reply is shown inline with its message, from the reload below
+      if (finished.status === 'completed') {
+        // Update conversation in list
+        await loadConversations();
+      }
     } catch (err: any) {
       if (err.name !== 'AbortError') {
         throw err;
       }
+      if (detach.signal.aborted) return;
+      // The server marks the cancelled turn as cancelled
+      await api.cancelJob(job.id).catch(() => undefined);
+    } finally {
+      if (followingRef.current === detach) followingRef.current = null;
+      setStreamingReply(null);
+      setStreamingToolSteps([]);
     }
+
+    // Show the stored reply (or the failed or cancelled turn) unless another conversation is open
+    const conv = await api.getConversation(job.conversationId);
+    setCurrentConv((prev) => (prev?.id === job.conversationId ? conv : prev));
+  }
+
+  async function handleRetry(messageId: string, abortSignal: AbortSignal) {
+    if (!currentConv) return;
+
+    const { job, message } = await api.retryMessage(currentConv.id, messageId);
+    setCurrentConv((prev) => {
+      if (!prev) return null;
+      return { ...prev, messages: prev.messages.map((m) => (m.id === message.id ? message : m)) };
+    });
+    await handleFollowJob(job, abortSignal);
+  }
+
+  async function handleRegenerate(abortSignal: AbortSignal) {
+    if (!currentConv) return;
+    const convId = currentConv.id;
+
+    try {
+      await api.regenerate(convId, abortSignal);
+      await loadConversations();
+    } finally {
+      await loadConversation(convId);
+    }
+  }
+
+  async function handleEditMessage(messageId: string, content: string, abortSignal: AbortSignal) {
+    if (!currentConv) return;
+    const convId = currentConv.id;
+
+    try {
+      await api.editMessage(convId, messageId, content, abortSignal);
+      await loadConversations();
+    } finally {
+      // Reload the branch either way: a cancelled edit still leaves a new version
+      await loadConversation(convId);
+    }
+  }
+
+  async function handleSelectBranch(messageId: string) {
+    if (!currentConv) return;
+    const conv = await api.selectBranch(currentConv.id, messageId);
+    setCurrentConv(conv);
+  }
+
+  if (user === undefined) {
+    return <div className="empty-state">Loading...</div>;
+  }
+
+  if (user === null) {
+    return <LoginScreen onLoggedIn={setUser} />;
   }
 
   return (
@@ -142,13 +492,23 @@ export default function App() {
         <ConversationList
           conversations={conversations}
           selectedId={selectedConvId}
-          onSelect={(id) => {
-            setSelectedConvId(id);
-            setSidebarOpen(false);
-          }}
+          onSelect={handleSelectConversation}
           onNew={handleNewConversation}
           onDelete={handleDeleteConversation}
+          onRename={handleRenameConversation}
+          onOpenMatch={handleOpenSearchMatch}
+          onImport={handleImportFile}
+          onError={setError}
         />
+        <KnowledgeBase onError={setError} />
+        <div className="sidebar-footer">
+          <span className="sidebar-user" title={user.email}>
+            {user.email}
+          </span>
+          <button className="btn-link" onClick={handleLogout}>
+            Sign out
+          </button>
+        </div>
       </div>
 
       <div className="main-content">
@@ -179,11 +539,49 @@ export default function App() {
         ) : (
           <ChatArea
             conversation={currentConv}
+            streamingReply={streamingReply}
+            streamingToolSteps={streamingToolSteps}
+            pendingJob={pendingJob}
+            highlightedMessageId={jumpTarget?.messageId ?? null}
+            onLoadOlder={handleLoadOlder}
+            onLoadNewer={handleLoadNewer}
             onSendMessage={handleSendMessage}
+            onFollowJob={handleFollowJob}
+            onRegenerate={handleRegenerate}
+            onRetry={handleRetry}
+            onEditMessage={handleEditMessage}
+            onSelectBranch={handleSelectBranch}
             onError={setError}
+            onSettingsSaved={(settings) => {
+              setCurrentConv((prev) =>
+                prev && prev.id === settings.id ? { ...prev, ...settings } : prev
+              );
+            }}
           />
         )}
       </div>
     </div>
   );
 }
+
+/**
+ * Loads the page ending at a message plus the next newer page, so the message
+ * sits in the middle of what is shown.
+ */
+async function getConversationAround(id: string, messageId: string): Promise<ConversationDetail> {
+  const older = await api.getConversation(id, messageId);
+  if (!older.pageInfo.prevCursor) return older;
+
+  const newer = await api.getConversation(id, older.pageInfo.prevCursor);
+  return {
+    ...newer,
+    messages: mergeMessages(older.messages, newer.messages),
+    pageInfo: { nextCursor: older.pageInfo.nextCursor, prevCursor: newer.pageInfo.prevCursor },
+  };
+}
+
+/** Joins two adjacent pages, dropping messages that appear in both. */
+function mergeMessages(older: Message[], newer: Message[]): Message[] {
+  const seen = new Set(older.map((m) => m.id));
+  return [...older, ...newer.filter((m) => !seen.has(m.id))];
+}
@@ -1,16 +1,77 @@
-import { Conversation, ConversationDetail, SendMessageResponse } from './types';
+import {
+  Attachment,
+  Conversation,
+  ConversationDetail,
+  ConversationSettings,
+  ErrorCode,
+  EnqueuedMessage,
+  ExportFormat,
+  GenerationJob,
+  GenerationSettings,
+  JobProgress,
+  KnowledgeDocument,
+  ModelInfo,
+  Preset,
+  RegenerateResponse,
+  SearchResult,
+  SendMessageResponse,
+  SyncEvent,
+  ToolStep,
+  User,
+} from './types';
 
 const API_BASE = '/api';
 
+// Wait before reopening a job's event stream after the connection dropped
+const JOB_RECONNECT_DELAY_MS = 1000;
+
+// Tries at sending a message whose request got no answer; its Idempotency-Key
+// keeps the repeats from storing it twice
+const SEND_ATTEMPTS = 3;
+const SEND_RETRY_DELAY_MS = 1000;
+
+// Wait before reopening the sync socket, doubled after every failed try
+const SYNC_RECONNECT_MIN_MS = 1000;
+const SYNC_RECONNECT_MAX_MS = 30000;
+
 export class ApiError extends Error {
-  constructor(public status: number, message: string) {
+  constructor(
+    public status: number,
+    message: string,
+    /** Stable error code from the backend; branch on this, not on `message`. */
+    public code?: ErrorCode,
+    /** Set on 429 and upstream errors: how long to wait before trying again. */
+    public retryAfterMs?: number
+  ) {
     super(message);
   }
 }
 
+let onUnauthorized: (() => void) | null = null;
+
+/** Called whenever a request comes back 401, i.e. the session is missing or expired. */
+export function setUnauthorizedHandler(handler: (() => void) | null) {
+  onUnauthorized = handler;
+}
+
+async function toApiError(response: Response): Promise<ApiError> {
+  if (response.status === 401) {
+    onUnauthorized?.();
+  }
+  const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+  return new ApiError(
+    response.status,
+    error.error || 'Request failed',
+    error.code,
+    error.retryAfterMs
+  );
+}
+
 async function fetchApi<T>(url: string, options?: RequestInit): Promise<T> {
   const response = await fetch(url, {
     ...options,
+    // Sends the httpOnly session cookie
+    credentials: 'include',
     headers: {
       'Content-Type': 'application/json',
       ...options?.headers,
@@ -18,8 +79,7 @@ async function fetchApi<T>(url: string, options?: RequestInit): Promise<T> {
   });
 
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Unknown error' }));
-    throw new ApiError(response.status, error.error || 'Request failed');
+    throw await toApiError(response);
   }
 
   if (response.status === 204) {
@@ -30,6 +90,30 @@ async function fetchApi<T>(url: string, options?: RequestInit): Promise<T> {
 }
 
 export const api = {
+  async me(): Promise<User> {
+    return fetchApi(`${API_BASE}/auth/me`);
+  },
+
+  async login(email: string, password: string): Promise<User> {
+    return fetchApi(`${API_BASE}/auth/login`, {
+      method: 'POST',
+      body: JSON.stringify({ email, password }),
+    });
+  },
+
+  async register(email: string, password: string): Promise<User> {
+    return fetchApi(`${API_BASE}/auth/register`, {
+      method: 'POST',
+      body: JSON.stringify({ email, password }),
+    });
+  },
+
+  async logout(): Promise<void> {
+    return fetchApi(`${API_BASE}/auth/logout`, {
+      method: 'POST',
+    });
+  },
+
   async createConversation(): Promise<Conversation> {
     return fetchApi(`${API_BASE}/conversations`, {
       method: 'POST',
@@ -52,21 +136,338 @@ export const api = {
     return fetchApi(`${API_BASE}/conversations/${id}?${params}`);
   },
 
+  async updateConversation(
+    id: string,
+    updates: { title?: string; systemPrompt?: string | null } & Partial<GenerationSettings>
+  ): Promise<ConversationSettings> {
+    return fetchApi(`${API_BASE}/conversations/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    });
+  },
+
+  /** Download link for the active branch; `md`, `json` or `jsonl`. */
+  exportUrl(id: string, format: ExportFormat): string {
+    return `${API_BASE}/conversations/${id}/export?format=${format}`;
+  },
+
+  async importConversation(data: unknown): Promise<Conversation> {
+    return fetchApi(`${API_BASE}/conversations/import`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
   async deleteConversation(id: string): Promise<void> {
     return fetchApi(`${API_BASE}/conversations/${id}`, {
       method: 'DELETE',
     });
   },
 
+  async listModels(): Promise<ModelInfo[]> {
+    const response: { models: ModelInfo[] } = await fetchApi(`${API_BASE}/models`);
+    return response.models;
+  },
+
+  async listPresets(): Promise<Preset[]> {
+    return fetchApi(`${API_BASE}/presets`);
+  },
+
+  async createPreset(name: string, systemPrompt: string): Promise<Preset> {
+    return fetchApi(`${API_BASE}/presets`, {
+      method: 'POST',
+      body: JSON.stringify({ name, systemPrompt }),
+    });
+  },
+
+  async deletePreset(id: string): Promise<void> {
+    return fetchApi(`${API_BASE}/presets/${id}`, {
+      method: 'DELETE',
+    });
+  },
+
+  /** Uploads text files; send the returned ids with the next message. */
+  async uploadAttachments(conversationId: string, files: File[]): Promise<Attachment[]> {
+    const body = new FormData();
+    files.forEach((file) => body.append('files', file));
+
+    // No JSON Content-Type: the browser sets the multipart boundary
+    const response = await fetch(`${API_BASE}/conversations/${conversationId}/attachments`, {
+      method: 'POST',
+      credentials: 'include',
+      body,
+    });
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+
+    const result: { attachments: Attachment[] } = await response.json();
+    return result.attachments;
+  },
+
+  attachmentUrl(conversationId: string, attachmentId: string): string {
+    return `${API_BASE}/conversations/${conversationId}/attachments/${attachmentId}`;
+  },
+
+  async listKnowledgeDocuments(): Promise<KnowledgeDocument[]> {
+    const response: { documents: KnowledgeDocument[] } = await fetchApi(
+      `${API_BASE}/knowledge/documents`
+    );
+    return response.documents;
+  },
+
+  /** Chunks and embeds the file server-side; resolves once it is searchable. */
+  async uploadKnowledgeDocument(file: File): Promise<KnowledgeDocument> {
+    const body = new FormData();
+    body.append('file', file);
+
+    const response = await fetch(`${API_BASE}/knowledge/documents`, {
+      method: 'POST',
+      credentials: 'include',
+      body,
+    });
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+    return response.json();
+  },
+
+  async deleteKnowledgeDocument(id: string): Promise<void> {
+    return fetchApi(`${API_BASE}/knowledge/documents/${id}`, {
+      method: 'DELETE',
+    });
+  },
+
+  /** The cited chunk as plain text. */
+  knowledgeChunkUrl(documentId: string, chunkId: string): string {
+    return `${API_BASE}/knowledge/documents/${documentId}/chunks/${chunkId}`;
+  },
+
+  /**
+   * Sends a message with a new Idempotency-Key, and sends it again with the
+   * same key when the connection fails or the first request is still being
+   * handled (409); the server stores it once either way. Follow the returned
+   * job with `followJob`.
+   */
   async sendMessage(
     conversationId: string,
+    message: { content: string; attachmentIds?: string[] }
+  ): Promise<EnqueuedMessage> {
+    const idempotencyKey = newIdempotencyKey();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await fetchApi(`${API_BASE}/conversations/${conversationId}/messages`, {
+          method: 'POST',
+          headers: { 'Idempotency-Key': idempotencyKey },
+          body: JSON.stringify(message),
+        });
+      } catch (err) {
+        const retryable = !(err instanceof ApiError) || err.status === 409;
+        if (!retryable || attempt >= SEND_ATTEMPTS) throw err;
+      }
+      await new Promise((resolve) => setTimeout(resolve, SEND_RETRY_DELAY_MS));
+    }
+  },
+
+  /** Queues the missing reply to a failed or cancelled message. */
+  async retryMessage(conversationId: string, messageId: string): Promise<EnqueuedMessage> {
+    return fetchApi(`${API_BASE}/conversations/${conversationId}/messages/${messageId}/retry`, {
+      method: 'POST',
+    });
+  },
+
+  /** Queued and running reply jobs of a conversation. */
+  async listJobs(conversationId: string): Promise<GenerationJob[]> {
+    const response: { jobs: GenerationJob[] } = await fetchApi(
+      `${API_BASE}/conversations/${conversationId}/jobs`
+    );
+    return response.jobs;
+  },
+
+  async cancelJob(jobId: string): Promise<GenerationJob> {
+    return fetchApi(`${API_BASE}/jobs/${jobId}/cancel`, { method: 'POST' });
+  },
+
+  async regenerate(conversationId: string, signal?: AbortSignal): Promise<RegenerateResponse> {
+    return fetchApi(`${API_BASE}/conversations/${conversationId}/regenerate`, {
+      method: 'POST',
+      signal,
+    });
+  },
+
+  async editMessage(
+    conversationId: string,
+    messageId: string,
     content: string,
     signal?: AbortSignal
   ): Promise<SendMessageResponse> {
-    return fetchApi(`${API_BASE}/conversations/${conversationId}/messages`, {
+    return fetchApi(`${API_BASE}/conversations/${conversationId}/messages/${messageId}/edit`, {
       method: 'POST',
       body: JSON.stringify({ content }),
       signal,
     });
   },
+
+  async selectBranch(
+    conversationId: string,
+    messageId: string,
+    limit: number = 50
+  ): Promise<ConversationDetail> {
+    return fetchApi(`${API_BASE}/conversations/${conversationId}/branch?limit=${limit}`, {
+      method: 'POST',
+      body: JSON.stringify({ messageId }),
+    });
+  },
+
+  async search(query: string, signal?: AbortSignal): Promise<SearchResult[]> {
+    const params = new URLSearchParams({ q: query });
+    const response: { results: SearchResult[] } = await fetchApi(
+      `${API_BASE}/search?${params}`,
+      { signal }
+    );
+    return response.results;
+  },
+
+  /**
+   * Follows a job until it finishes and resolves with its final state. A
+   * dropped connection (e.g. the backend restarting) is reopened; aborting
+   * `signal` only stops following, the job keeps running (see `cancelJob`).
+   */
+  async followJob(
+    jobId: string,
+    handlers: {
+      /** Called on every (re)connect with the reply so far, if the job is running. */
+      onProgress: (progress: JobProgress | null) => void;
+      onToken: (token: string) => void;
+      onToolStep: (step: ToolStep) => void;
+    },
+    signal?: AbortSignal
+  ): Promise<GenerationJob> {
+    for (;;) {
+      let result = null as GenerationJob | null;
+      try {
+        const response = await fetch(`${API_BASE}/jobs/${jobId}/events`, {
+          credentials: 'include',
+          signal,
+        });
+        if (!response.ok || !response.body) {
+          throw await toApiError(response);
+        }
+
+        await readEvents(response.body, (event, data) => {
+          switch (event) {
+            case 'job':
+              handlers.onProgress(data.partial);
+              break;
+            case 'token':
+              handlers.onToken(data.token);
+              break;
+            case 'tool':
+              handlers.onToolStep(data);
+              break;
+            case 'done':
+              result = data;
+              break;
+          }
+        });
+      } catch (err) {
+        // Client errors are final; the job may still finish after a server error
+        if (signal?.aborted || (err instanceof ApiError && err.status < 500)) {
+          throw err;
+        }
+      }
+
+      if (result) return result;
+      await new Promise((resolve) => setTimeout(resolve, JOB_RECONNECT_DELAY_MS));
+    }
+  },
+
+  /**
+   * Keeps a WebSocket open for changes to the user's conversations, reopening
+   * it with backoff when it drops. A reopened socket first replays the events
+   * missed since the last one seen; `onReset` is called instead when they are
+   * gone (and on the first connect), and the caller should reload. Returns a
+   * function that closes the socket for good.
+   */
+  subscribeToChanges(handlers: {
+    onEvent: (event: SyncEvent) => void;
+    onReset: () => void;
+  }): () => void {
+    let lastSeq: number | null = null;
+    let socket: WebSocket | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let delay = SYNC_RECONNECT_MIN_MS;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      const query = lastSeq === null ? '' : `?since=${lastSeq}`;
+      socket = new WebSocket(`${protocol}//${window.location.host}${API_BASE}/sync${query}`);
+
+      socket.onmessage = (message) => {
+        const frame = JSON.parse(message.data);
+        if (frame.type === 'event') {
+          lastSeq = frame.event.seq;
+          handlers.onEvent(frame.event);
+          return;
+        }
+        // `ready` or `reset`: connected, and `seq` is where to resume from
+        delay = SYNC_RECONNECT_MIN_MS;
+        lastSeq = frame.seq;
+        if (frame.type === 'reset') handlers.onReset();
+      };
+
+      socket.onclose = () => {
+        if (closed) return;
+        // Jitter keeps open tabs from all reconnecting at once after a restart
+        retryTimer = setTimeout(connect, delay * (0.5 + Math.random() / 2));
+        delay = Math.min(delay * 2, SYNC_RECONNECT_MAX_MS);
+      };
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+    };
+  },
 };
+
+// crypto.randomUUID is only available on HTTPS and localhost
+function newIdempotencyKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Minimal Server-Sent Events parser for fetch bodies. `followJob` needs the status
+// of a failed request and its own reconnect policy, which EventSource hides
+async function readEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: string, data: any) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      let data = '';
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event: ')) event = line.slice(7);
+        else if (line.startsWith('data: ')) data += line.slice(6);
+      }
+      if (data) onEvent(event, JSON.parse(data));
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { api } from '../api';
+import { Attachment } from '../types';
+import './AttachmentChips.css';
+
+interface Props {
+  attachments: Attachment[];
+  /** Makes each chip a download link. */
+  conversationId?: string;
+  /** Shows a remove button on each chip, e.g. before sending. */
+  onRemove?: (attachmentId: string) => void;
+}
+
+export function AttachmentChips({ attachments, conversationId, onRemove }: Props) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <ul className="attachment-chips" aria-label="Attachments">
+      {attachments.map((attachment) => (
+        <li key={attachment.id} className="attachment-chip" title={attachment.mimeType}>
+          <span aria-hidden="true">📄</span>
+          {conversationId ? (
+            <a href={api.attachmentUrl(conversationId, attachment.id)} download={attachment.filename}>
+              {attachment.filename}
+            </a>
+          ) : (
+            <span>{attachment.filename}</span>
+          )}
+          <span className="attachment-size">{formatSize(attachment.size)}</span>
+          {onRemove && (
+            <button
+              type="button"
+              className="attachment-remove"
+              onClick={() => onRemove(attachment.id)}
+              aria-label={`Remove ${attachment.filename}`}
+            >
+              ×
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
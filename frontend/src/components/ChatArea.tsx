@@ -1,30 +1,88 @@
 import { useState, useRef, useEffect } from 'react';
-import { ConversationDetail } from '../types';
+import { api, ApiError } from '../api';
+import {
+  Attachment,
+  ConversationDetail,
+  ConversationSettings as Settings,
+  ExportFormat,
+  GenerationJob,
+  ToolStep,
+} from '../types';
 import { MessageList } from './MessageList';
 import { ChatInput } from './ChatInput';
+import { ConversationSettings } from './ConversationSettings';
+import { ModelPicker } from './ModelPicker';
 import './ChatArea.css';
 
+const EXPORT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'md', label: 'Markdown' },
+  { format: 'json', label: 'JSON' },
+  { format: 'jsonl', label: 'JSONL (fine-tuning)' },
+];
+
 interface Props {
   conversation: ConversationDetail;
-  onSendMessage: (content: string, abortSignal: AbortSignal) => Promise<void>;
+  streamingReply: string | null;
+  streamingToolSteps: ToolStep[];
+  /** Reply still being generated when the conversation was opened; followed like a new one. */
+  pendingJob: GenerationJob | null;
+  highlightedMessageId: string | null;
+  onLoadOlder: () => Promise<void>;
+  onLoadNewer: () => Promise<void>;
+  onSendMessage: (
+    content: string,
+    attachmentIds: string[],
+    abortSignal: AbortSignal
+  ) => Promise<void>;
+  onFollowJob: (job: GenerationJob, abortSignal: AbortSignal) => Promise<void>;
+  onRegenerate: (abortSignal: AbortSignal) => Promise<void>;
+  onRetry: (messageId: string, abortSignal: AbortSignal) => Promise<void>;
+  onEditMessage: (messageId: string, content: string, abortSignal: AbortSignal) => Promise<void>;
+  onSelectBranch: (messageId: string) => Promise<void>;
   onError: (error: string) => void;
+  onSettingsSaved: (settings: Settings) => void;
 }
 
-export function ChatArea({ conversation, onSendMessage, onError }: Props) {
+export function ChatArea({
+  conversation,
+  streamingReply,
+  streamingToolSteps,
+  pendingJob,
+  highlightedMessageId,
+  onLoadOlder,
+  onLoadNewer,
+  onSendMessage,
+  onFollowJob,
+  onRegenerate,
+  onRetry,
+  onEditMessage,
+  onSelectBranch,
+  onError,
+  onSettingsSaved,
+}: Props) {
   const [sending, setSending] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  // Set when the server rate limits us; sending is blocked until then
+  const [rateLimit, setRateLimit] = useState<{ message: string; retryAt: number } | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
 
-  async function handleSend(content: string) {
+  // Runs one generation at a time; the Cancel button aborts it
+  async function runCancellable(
+    action: (signal: AbortSignal) => Promise<void>,
+    fallbackError: string
+  ) {
     if (sending) return;
 
     setSending(true);
     abortControllerRef.current = new AbortController();
 
     try {
-      await onSendMessage(content, abortControllerRef.current.signal);
+      await action(abortControllerRef.current.signal);
     } catch (err: any) {
-      if (err.name !== 'AbortError') {
-        onError(err.message || 'Failed to send message');
+      if (err instanceof ApiError && err.code === 'RATE_LIMITED' && err.retryAfterMs) {
+        setRateLimit({ message: err.message, retryAt: Date.now() + err.retryAfterMs });
+      } else if (err.name !== 'AbortError') {
+        onError(err.message || fallbackError);
       }
     } finally {
       setSending(false);
@@ -32,6 +90,58 @@ export function ChatArea({ conversation, onSendMessage, onError }: Props) {
     }
   }
 
+  function handleSend(content: string, attachments: Attachment[]) {
+    return runCancellable(
+      (signal) => onSendMessage(content, attachments.map((a) => a.id), signal),
+      'Failed to send message'
+    );
+  }
+
+  // Cancel works on a reattached reply as on one just sent
+  useEffect(() => {
+    if (pendingJob) {
+      runCancellable((signal) => onFollowJob(pendingJob, signal), 'Failed to get reply');
+    }
+  }, [pendingJob?.id]);
+
+  async function handleUpload(files: File[]): Promise<Attachment[]> {
+    try {
+      return await api.uploadAttachments(conversation.id, files);
+    } catch (err: any) {
+      onError(err.message || 'Failed to upload files');
+      return [];
+    }
+  }
+
+  function handleRegenerate() {
+    return runCancellable(onRegenerate, 'Failed to regenerate reply');
+  }
+
+  function handleRetry(messageId: string) {
+    return runCancellable((signal) => onRetry(messageId, signal), 'Failed to retry message');
+  }
+
+  function handleEdit(messageId: string, content: string) {
+    return runCancellable(
+      (signal) => onEditMessage(messageId, content, signal),
+      'Failed to edit message'
+    );
+  }
+
+  async function handleSelectBranch(messageId: string) {
+    try {
+      await onSelectBranch(messageId);
+    } catch (err: any) {
+      onError(err.message || 'Failed to switch branch');
+    }
+  }
+
+  const hasCustomSettings =
+    conversation.systemPrompt !== null ||
+    conversation.temperature !== null ||
+    conversation.topP !== null ||
+    conversation.maxTokens !== null;
+
   function handleCancel() {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
@@ -44,15 +154,73 @@ export function ChatArea({ conversation, onSendMessage, onError }: Props) {
     <div className="chat-area">
       <div className="chat-header">
         <h2>{conversation.title}</h2>
+        <div className="chat-header-actions">
+          <ModelPicker
+            conversation={conversation}
+            disabled={sending}
+            onSaved={onSettingsSaved}
+            onError={onError}
+          />
+          <details className="export-menu">
+            <summary aria-label="Export conversation" title="Export conversation">
+              ⬇️
+            </summary>
+            <div className="export-menu-items">
+              {EXPORT_OPTIONS.map(({ format, label }) => (
+                <a key={format} href={api.exportUrl(conversation.id, format)} download>
+                  {label}
+                </a>
+              ))}
+            </div>
+          </details>
+          <button
+            className={`btn-settings ${hasCustomSettings ? 'active' : ''}`}
+            onClick={() => setShowSettings(!showSettings)}
+            aria-label="Conversation settings"
+            aria-expanded={showSettings}
+            title={hasCustomSettings ? 'Custom prompt or parameters set' : 'Conversation settings'}
+          >
+            ⚙️
+          </button>
+        </div>
       </div>
 
-      <MessageList messages={conversation.messages} />
+      {showSettings && (
+        <ConversationSettings
+          conversation={conversation}
+          onSaved={onSettingsSaved}
+          onClose={() => setShowSettings(false)}
+          onError={onError}
+        />
+      )}
+
+      <MessageList
+        conversationId={conversation.id}
+        messages={conversation.messages}
+        streamingReply={streamingReply}
+        streamingToolSteps={streamingToolSteps}
+        highlightedMessageId={highlightedMessageId}
+        hasOlder={conversation.pageInfo.nextCursor !== null}
+        hasNewer={conversation.pageInfo.prevCursor !== null}
+        onLoadOlder={onLoadOlder}
+        onLoadNewer={onLoadNewer}
+        busy={sending}
+        onRegenerate={handleRegenerate}
+        onRetry={handleRetry}
+        onEdit={handleEdit}
+        onSelectBranch={handleSelectBranch}
+      />
 
       <ChatInput
+        // Pending attachments belong to one conversation
+        key={conversation.id}
         onSend={handleSend}
+        onUpload={handleUpload}
         onCancel={handleCancel}
         disabled={sending}
         sending={sending}
+        rateLimit={rateLimit}
+        onRateLimitExpired={() => setRateLimit(null)}
       />
     </div>
   );
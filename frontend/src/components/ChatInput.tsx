@@ -1,16 +1,56 @@
 import { useState, useRef, useEffect } from 'react';
+import { Attachment } from '../types';
+import { AttachmentChips } from './AttachmentChips';
 import './ChatInput.css';
 
 interface Props {
-  onSend: (content: string) => void;
+  onSend: (content: string, attachments: Attachment[]) => void;
+  /** Uploads files for the next message; resolves to [] when the upload failed. */
+  onUpload: (files: File[]) => Promise<Attachment[]>;
   onCancel: () => void;
   disabled: boolean;
   sending: boolean;
+  /** Server-side rate limit in effect; sending is blocked until `retryAt`. */
+  rateLimit?: { message: string; retryAt: number } | null;
+  onRateLimitExpired?: () => void;
 }
 
-export function ChatInput({ onSend, onCancel, disabled, sending }: Props) {
+export function ChatInput({
+  onSend,
+  onUpload,
+  onCancel,
+  disabled,
+  sending,
+  rateLimit = null,
+  onRateLimitExpired,
+}: Props) {
   const [content, setContent] = useState('');
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [dragging, setDragging] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const rateLimited = rateLimit !== null;
+
+  // Count down once per second until the limit expires
+  useEffect(() => {
+    if (!rateLimit) return;
+
+    const tick = () => {
+      const remaining = Math.ceil((rateLimit.retryAt - Date.now()) / 1000);
+      if (remaining <= 0) {
+        onRateLimitExpired?.();
+      } else {
+        setSecondsLeft(remaining);
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [rateLimit]);
 
   useEffect(() => {
     if (!disabled && textareaRef.current) {
@@ -20,10 +60,41 @@ export function ChatInput({ onSend, onCancel, disabled, sending }: Props) {
 
   function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
-    if (!content.trim() || disabled) return;
+    if (!content.trim() || disabled || rateLimited || uploading) return;
 
-    onSend(content.trim());
+    onSend(content.trim(), attachments);
     setContent('');
+    setAttachments([]);
+  }
+
+  async function addFiles(files: File[]) {
+    if (files.length === 0 || uploading) return;
+
+    setUploading(true);
+    try {
+      const uploaded = await onUpload(files);
+      setAttachments((prev) => [...prev, ...uploaded]);
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    addFiles(Array.from(e.target.files ?? []));
+    // Allows picking the same file again after removing it
+    e.target.value = '';
+  }
+
+  function handleDragOver(e: React.DragEvent) {
+    if (disabled || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setDragging(true);
+  }
+
+  function handleDrop(e: React.DragEvent) {
+    e.preventDefault();
+    setDragging(false);
+    if (!disabled) addFiles(Array.from(e.dataTransfer.files));
   }
 
   function handleKeyDown(e: React.KeyboardEvent) {
@@ -34,7 +105,18 @@ export function ChatInput({ onSend, onCancel, disabled, sending }: Props) {
   }
 
   return (
-    <form className="chat-input" onSubmit={handleSubmit}>
+    <form
+      className={`chat-input ${dragging ? 'dragging' : ''}`}
+      onSubmit={handleSubmit}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+    >
+      {rateLimit && (
+        <div className="chat-input-limit" role="status" aria-live="polite">
+          {rateLimit.message}. You can send again in {formatCountdown(secondsLeft)}.
+        </div>
+      )}
       <textarea
         ref={textareaRef}
         value={content}
@@ -46,6 +128,29 @@ export function ChatInput({ onSend, onCancel, disabled, sending }: Props) {
         aria-label="Message input"
       />
       <div className="chat-input-actions">
+        <div className="chat-input-attachments">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            hidden
+            onChange={handleFileChange}
+          />
+          <button
+            type="button"
+            className="btn-attach"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled || uploading}
+            aria-label="Attach files"
+            title="Attach text files (or drop them here)"
+          >
+            {uploading ? '…' : '📎'}
+          </button>
+          <AttachmentChips
+            attachments={attachments}
+            onRemove={(id) => setAttachments((prev) => prev.filter((a) => a.id !== id))}
+          />
+        </div>
         {sending ? (
           <button
             type="button"
@@ -58,14 +163,24 @@ export function ChatInput({ onSend, onCancel, disabled, sending }: Props) {
         ) : (
           <button
             type="submit"
-            disabled={!content.trim() || disabled}
+            disabled={!content.trim() || disabled || rateLimited || uploading}
             className="btn-send"
             aria-label="Send message"
           >
-            Send
+            {rateLimited ? `Wait ${formatCountdown(secondsLeft)}` : 'Send'}
           </button>
         )}
       </div>
     </form>
   );
 }
+
+function formatCountdown(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  return hours > 0
+    ? `${hours}h ${minutes.toString().padStart(2, '0')}m`
+    : `${minutes}:${secs.toString().padStart(2, '0')}`;
+}
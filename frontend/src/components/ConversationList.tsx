@@ -1,52 +1,177 @@
-import { Conversation } from '../types';
+import { useEffect, useState } from 'react';
+import { api } from '../api';
+import { Conversation, SearchMatch, SearchResult } from '../types';
+import { SearchResults } from './SearchResults';
 import './ConversationList.css';
 
+const SEARCH_DEBOUNCE_MS = 300;
+
 interface Props {
   conversations: Conversation[];
   selectedId: string | null;
   onSelect: (id: string) => void;
   onNew: () => void;
   onDelete: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onOpenMatch: (conversationId: string, match: SearchMatch) => void;
+  onImport: (file: File) => void;
+  onError: (error: string) => void;
 }
 
-export function ConversationList({ conversations, selectedId, onSelect, onNew, onDelete }: Props) {
+export function ConversationList({
+  conversations,
+  selectedId,
+  onSelect,
+  onNew,
+  onDelete,
+  onRename,
+  onOpenMatch,
+  onImport,
+  onError,
+}: Props) {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [query, setQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
+
+  // Search as the user types; a newer query aborts the previous request
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setSearchResults(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => {
+      api
+        .search(trimmed, controller.signal)
+        .then(setSearchResults)
+        .catch((err) => {
+          if (err.name !== 'AbortError') onError(err.message);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query]);
+
+  function startRename(conv: Conversation) {
+    setRenamingId(conv.id);
+    setDraftTitle(conv.title);
+  }
+
+  function finishRename(conv: Conversation) {
+    const title = draftTitle.trim();
+    setRenamingId(null);
+    if (title && title !== conv.title) {
+      onRename(conv.id, title);
+    }
+  }
+
   return (
     <div className="conversation-list">
       <button className="btn-new-conversation" onClick={onNew}>
         + New Conversation
       </button>
 
+      <label className="btn-import">
+        Import JSON / JSONL
+        <input
+          type="file"
+          accept=".json,.jsonl,application/json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            // Allow picking the same file again
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      <input
+        type="search"
+        className="conversation-search"
+        placeholder="Search messages"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') setQuery('');
+        }}
+        aria-label="Search messages"
+      />
+
       <div className="conversations">
-        {conversations.length === 0 ? (
+        {query.trim() ? (
+          searchResults && <SearchResults results={searchResults} onOpenMatch={onOpenMatch} />
+        ) : conversations.length === 0 ? (
           <div className="empty-conversations">No conversations yet</div>
         ) : (
-          conversations.map((conv) => (
-            <div
-              key={conv.id}
-              className={`conversation-item ${selectedId === conv.id ? 'selected' : ''}`}
-              onClick={() => onSelect(conv.id)}
-              role="button"
-              tabIndex={0}
-              onKeyDown={(e) => {
-                if (e.key === 'Enter' || e.key === ' ') {
-                  e.preventDefault();
-                  onSelect(conv.id);
-                }
-              }}
-            >
-              <div className="conversation-title">{conv.title}</div>
-              <button
-                className="btn-delete"
-                onClick={(e) => {
-                  e.stopPropagation();
-                  onDelete(conv.id);
+          conversations.map((conv) =>
+            renamingId === conv.id ? (
+              <div key={conv.id} className="conversation-item renaming">
+                <input
+                  className="conversation-title-input"
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={() => finishRename(conv)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      finishRename(conv);
+                    } else if (e.key === 'Escape') {
+                      setRenamingId(null);
+                    }
+                  }}
+                  maxLength={200}
+                  aria-label="Conversation title"
+                  autoFocus
+                />
+              </div>
+            ) : (
+              <div
+                key={conv.id}
+                className={`conversation-item ${selectedId === conv.id ? 'selected' : ''}`}
+                onClick={() => onSelect(conv.id)}
+                onDoubleClick={() => startRename(conv)}
+                role="button"
+                tabIndex={0}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === ' ') {
+                    e.preventDefault();
+                    onSelect(conv.id);
+                  } else if (e.key === 'F2') {
+                    e.preventDefault();
+                    startRename(conv);
+                  }
                 }}
-                aria-label={`Delete ${conv.title}`}
               >
-                🗑️
-              </button>
-            </div>
-          ))
+                <div className="conversation-title">{conv.title}</div>
+                <button
+                  className="btn-rename"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    startRename(conv);
+                  }}
+                  aria-label={`Rename ${conv.title}`}
+                >
+                  ✏️
+                </button>
+                <button
+                  className="btn-delete"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete(conv.id);
+                  }}
+                  aria-label={`Delete ${conv.title}`}
+                >
+                  🗑️
+                </button>
+              </div>
+            )
+          )
         )}
       </div>
     </div>
@@ -0,0 +1,200 @@
+import { useState, useEffect } from 'react';
+import { api } from '../api';
+import { ConversationDetail, ConversationSettings as Settings, Preset } from '../types';
+import './ConversationSettings.css';
+
+// Number inputs edit strings; empty means "use the server default"
+function toInput(value: number | null): string {
+  return value === null ? '' : String(value);
+}
+
+function fromInput(value: string): number | null {
+  return value.trim() === '' ? null : Number(value);
+}
+
+interface Props {
+  conversation: ConversationDetail;
+  onSaved: (settings: Settings) => void;
+  onClose: () => void;
+  onError: (error: string) => void;
+}
+
+export function ConversationSettings({ conversation, onSaved, onClose, onError }: Props) {
+  const [systemPrompt, setSystemPrompt] = useState(conversation.systemPrompt ?? '');
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [selectedPresetId, setSelectedPresetId] = useState('');
+  const [presetName, setPresetName] = useState('');
+  const [temperature, setTemperature] = useState(toInput(conversation.temperature));
+  const [topP, setTopP] = useState(toInput(conversation.topP));
+  const [maxTokens, setMaxTokens] = useState(toInput(conversation.maxTokens));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    api.listPresets().then(setPresets).catch((err) => onError(err.message));
+  }, []);
+
+  useEffect(() => {
+    setSystemPrompt(conversation.systemPrompt ?? '');
+  }, [conversation.id, conversation.systemPrompt]);
+
+  useEffect(() => {
+    setTemperature(toInput(conversation.temperature));
+    setTopP(toInput(conversation.topP));
+    setMaxTokens(toInput(conversation.maxTokens));
+  }, [conversation.id, conversation.temperature, conversation.topP, conversation.maxTokens]);
+
+  function handleSelectPreset(id: string) {
+    setSelectedPresetId(id);
+    const preset = presets.find((p) => p.id === id);
+    if (preset) {
+      setSystemPrompt(preset.systemPrompt);
+    }
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const settings = await api.updateConversation(conversation.id, {
+        systemPrompt: systemPrompt.trim() || null,
+        temperature: fromInput(temperature),
+        topP: fromInput(topP),
+        maxTokens: fromInput(maxTokens),
+      });
+      onSaved(settings);
+      onClose();
+    } catch (err: any) {
+      onError(err.message || 'Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleSavePreset() {
+    if (!presetName.trim() || !systemPrompt.trim()) return;
+    try {
+      const preset = await api.createPreset(presetName.trim(), systemPrompt.trim());
+      setPresets((prev) => [...prev, preset].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedPresetId(preset.id);
+      setPresetName('');
+    } catch (err: any) {
+      onError(err.message || 'Failed to save preset');
+    }
+  }
+
+  async function handleDeletePreset() {
+    if (!selectedPresetId) return;
+    try {
+      await api.deletePreset(selectedPresetId);
+      setPresets((prev) => prev.filter((p) => p.id !== selectedPresetId));
+      setSelectedPresetId('');
+    } catch (err: any) {
+      onError(err.message || 'Failed to delete preset');
+    }
+  }
+
+  return (
+    <form className="conversation-settings" onSubmit={handleSave}>
+      <div className="settings-row">
+        <label htmlFor="preset-select">Preset</label>
+        <select
+          id="preset-select"
+          value={selectedPresetId}
+          onChange={(e) => handleSelectPreset(e.target.value)}
+        >
+          <option value="">Custom</option>
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.shared ? `${preset.name} (shared)` : preset.name}
+            </option>
+          ))}
+        </select>
+        {selectedPresetId && !presets.find((p) => p.id === selectedPresetId)?.shared && (
+          <button
+            type="button"
+            className="btn-link"
+            onClick={handleDeletePreset}
+            aria-label="Delete preset"
+          >
+            Delete preset
+          </button>
+        )}
+      </div>
+
+      <label htmlFor="system-prompt">System prompt</label>
+      <textarea
+        id="system-prompt"
+        value={systemPrompt}
+        onChange={(e) => {
+          setSystemPrompt(e.target.value);
+          setSelectedPresetId('');
+        }}
+        placeholder="e.g. You are a concise assistant that answers in bullet points."
+        rows={4}
+      />
+
+      <div className="settings-row">
+        <input
+          type="text"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder="Preset name"
+          aria-label="Preset name"
+        />
+        <button
+          type="button"
+          className="btn-secondary"
+          onClick={handleSavePreset}
+          disabled={!presetName.trim() || !systemPrompt.trim()}
+        >
+          Save as preset
+        </button>
+      </div>
+
+      <fieldset className="settings-params">
+        <legend>Generation parameters (empty = model default)</legend>
+        <label>
+          Temperature
+          <input
+            type="number"
+            min={0}
+            max={2}
+            step={0.1}
+            value={temperature}
+            onChange={(e) => setTemperature(e.target.value)}
+          />
+        </label>
+        <label>
+          Top P
+          <input
+            type="number"
+            min={0.01}
+            max={1}
+            step={0.05}
+            value={topP}
+            onChange={(e) => setTopP(e.target.value)}
+          />
+        </label>
+        <label>
+          Max tokens
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={maxTokens}
+            onChange={(e) => setMaxTokens(e.target.value)}
+          />
+        </label>
+      </fieldset>
+
+      <div className="settings-actions">
+        <button type="button" className="btn-secondary" onClick={onClose}>
+          Close
+        </button>
+        <button type="submit" className="btn-send" disabled={saving}>
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+}
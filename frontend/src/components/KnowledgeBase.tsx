@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { api } from '../api';
+import { KnowledgeDocument } from '../types';
+import './KnowledgeBase.css';
+
+interface Props {
+  onError: (error: string) => void;
+}
+
+/** The user's documents for retrieval-augmented replies, in a collapsible sidebar section. */
+export function KnowledgeBase({ onError }: Props) {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [uploading, setUploading] = useState(false);
+
+  useEffect(() => {
+    api.listKnowledgeDocuments().then(setDocuments).catch((err) => onError(err.message));
+  }, []);
+
+  async function handleUpload(file: File) {
+    setUploading(true);
+    try {
+      const document = await api.uploadKnowledgeDocument(file);
+      setDocuments((prev) => [document, ...prev]);
+    } catch (err: any) {
+      onError(`Upload failed: ${err.message}`);
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  async function handleDelete(id: string) {
+    try {
+      await api.deleteKnowledgeDocument(id);
+      setDocuments((prev) => prev.filter((d) => d.id !== id));
+    } catch (err: any) {
+      onError(err.message || 'Failed to delete document');
+    }
+  }
+
+  return (
+    <details className="knowledge-base">
+      <summary>📚 Knowledge base ({documents.length})</summary>
+
+      <label className={`btn-import ${uploading ? 'busy' : ''}`}>
+        {uploading ? 'Indexing…' : 'Add document'}
+        <input
+          type="file"
+          disabled={uploading}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleUpload(file);
+            // Allow picking the same file again
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {documents.length === 0 ? (
+        <p className="knowledge-empty">Replies will cite documents you add here.</p>
+      ) : (
+        <ul className="knowledge-documents">
+          {documents.map((doc) => (
+            <li key={doc.id} title={`${doc.filename} · ${doc.chunkCount} chunks`}>
+              <span className="knowledge-title">{doc.title}</span>
+              <button
+                className="btn-delete"
+                onClick={() => handleDelete(doc.id)}
+                aria-label={`Delete ${doc.title}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { api } from '../api';
+import { User } from '../types';
+import './LoginScreen.css';
+
+interface Props {
+  onLoggedIn: (user: User) => void;
+}
+
+export function LoginScreen({ onLoggedIn }: Props) {
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const user =
+        mode === 'login'
+          ? await api.login(email, password)
+          : await api.register(email, password);
+      onLoggedIn(user);
+    } catch (err: any) {
+      setError(err.message || 'Sign in failed');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="login-screen">
+      <form className="login-form" onSubmit={handleSubmit}>
+        <h1>Mini ChatGPT</h1>
+        <p>{mode === 'login' ? 'Sign in to your conversations' : 'Create an account'}</p>
+
+        {error && (
+          <div className="login-error" role="alert">
+            {error}
+          </div>
+        )}
+
+        <label>
+          Email
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            autoComplete="email"
+            required
+            autoFocus
+          />
+        </label>
+
+        <label>
+          Password
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+            minLength={mode === 'register' ? 8 : undefined}
+            required
+          />
+        </label>
+
+        <button type="submit" className="btn-primary" disabled={submitting}>
+          {mode === 'login' ? 'Sign in' : 'Create account'}
+        </button>
+
+        <button
+          type="button"
+          className="btn-link"
+          onClick={() => {
+            setMode(mode === 'login' ? 'register' : 'login');
+            setError(null);
+          }}
+        >
+          {mode === 'login' ? 'No account? Create one' : 'Already have an account? Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { memo, useRef, useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github.css';
+import './Markdown.css';
+
+// Raw HTML in the source is never rendered (react-markdown escapes it). The
+// sanitizer additionally drops anything outside GitHub's allow-list before
+// KaTeX and highlight.js add their own trusted markup, so it must run first.
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [
+      ...(defaultSchema.attributes?.code ?? []),
+      // remark-math marks math as <code class="language-math math-inline|math-display">
+      ['className', /^language-./, 'math-inline', 'math-display'],
+    ],
+  },
+};
+
+const components: Components = {
+  pre: CodeBlock,
+  a: ({ node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+};
+
+interface Props {
+  content: string;
+}
+
+/** Model output rendered as GitHub-flavored Markdown with code highlighting and math. */
+export const Markdown = memo(function Markdown({ content }: Props) {
+  return (
+    <div className="markdown">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[
+          [rehypeSanitize, sanitizeSchema],
+          rehypeKatex,
+          [rehypeHighlight, { detect: false }],
+        ]}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+});
+
+function CodeBlock({ node, children, ...props }: React.ComponentProps<'pre'> & { node?: unknown }) {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  async function handleCopy() {
+    const text = preRef.current?.querySelector('code')?.textContent ?? '';
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // Clipboard access can be denied (e.g. insecure context); nothing to undo
+    }
+  }
+
+  return (
+    <div className="code-block">
+      <button
+        type="button"
+        className="btn-copy-code"
+        onClick={handleCopy}
+        aria-label="Copy code"
+      >
+        {copied ? 'Copied' : 'Copy'}
+      </button>
+      <pre ref={preRef} {...props}>
+        {children}
+      </pre>
+    </div>
+  );
+}
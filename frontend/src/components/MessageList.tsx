@@ -1,19 +1,75 @@
-import { useEffect, useRef } from 'react';
-import { Message } from '../types';
+import { useEffect, useRef, useState } from 'react';
+import { api } from '../api';
+import { Message, ToolStep } from '../types';
+import { Markdown } from './Markdown';
+import { AttachmentChips } from './AttachmentChips';
+import { ToolSteps } from './ToolSteps';
 import './MessageList.css';
 
+const ROLE_LABELS: Record<Message['role'], string> = {
+  system: 'System',
+  user: 'You',
+  assistant: 'Assistant',
+};
+
 interface Props {
+  /** Used for attachment download links. */
+  conversationId?: string;
   messages: Message[];
+  streamingReply?: string | null;
+  /** Tools called so far for the streaming reply. */
+  streamingToolSteps?: ToolStep[];
+  /** Message to scroll to and mark, e.g. one opened from search. */
+  highlightedMessageId?: string | null;
+  hasOlder?: boolean;
+  hasNewer?: boolean;
+  onLoadOlder?: () => void;
+  onLoadNewer?: () => void;
+  busy?: boolean;
+  onRegenerate?: () => void;
+  /** Generates the missing reply to a failed or cancelled user message. */
+  onRetry?: (messageId: string) => void;
+  onEdit?: (messageId: string, content: string) => void;
+  onSelectBranch?: (messageId: string) => void;
 }
 
-export function MessageList({ messages }: Props) {
+export function MessageList({
+  conversationId,
+  messages,
+  streamingReply = null,
+  streamingToolSteps = [],
+  highlightedMessageId = null,
+  hasOlder = false,
+  hasNewer = false,
+  onLoadOlder,
+  onLoadNewer,
+  busy = false,
+  onRegenerate,
+  onRetry,
+  onEdit,
+  onSelectBranch,
+}: Props) {
   const bottomRef = useRef<HTMLDivElement>(null);
+  const highlightedRef = useRef<HTMLDivElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  // User messages are shown as typed unless switched to Markdown one by one
+  const [markdownUserIds, setMarkdownUserIds] = useState<Set<string>>(new Set());
+
+  const lastMessageId = messages[messages.length - 1]?.id;
+  const highlightedLoaded = messages.some((m) => m.id === highlightedMessageId);
 
+  // Follow new messages, but not when an older page was loaded or the end isn't shown
   useEffect(() => {
+    if (hasNewer) return;
     bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [lastMessageId, streamingReply, streamingToolSteps.length]);
+
+  useEffect(() => {
+    highlightedRef.current?.scrollIntoView({ block: 'center' });
+  }, [highlightedMessageId, highlightedLoaded]);
 
-  if (messages.length === 0) {
+  if (messages.length === 0 && streamingReply === null) {
     return (
       <div className="message-list empty">
         <p>No messages yet. Start the conversation!</p>
@@ -21,15 +77,218 @@ export function MessageList({ messages }: Props) {
     );
   }
 
+  const lastMessage = messages[messages.length - 1];
+  // The last reply can be regenerated; so can a last user turn left without one
+  const canRegenerate =
+    lastMessage &&
+    (lastMessage.role === 'assistant' ||
+      (lastMessage.role === 'user' && lastMessage.status === 'cancelled'));
+
+  function startEditing(msg: Message) {
+    setEditingId(msg.id);
+    setDraft(msg.content);
+  }
+
+  function toggleMarkdown(messageId: string) {
+    setMarkdownUserIds((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(messageId)) next.add(messageId);
+      return next;
+    });
+  }
+
+  function submitEdit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!editingId || !draft.trim()) return;
+    onEdit?.(editingId, draft.trim());
+    setEditingId(null);
+  }
+
   return (
     <div className="message-list">
+      {hasOlder && (
+        <button className="btn-load-page" onClick={onLoadOlder}>
+          Load older messages
+        </button>
+      )}
       {messages.map((msg) => (
-        <div key={msg.id} className={`message ${msg.role}`}>
-          <div className="message-role">{msg.role === 'user' ? 'You' : 'Assistant'}</div>
-          <div className="message-content">{msg.content}</div>
+        <div
+          key={msg.id}
+          ref={msg.id === highlightedMessageId ? highlightedRef : undefined}
+          className={`message ${msg.role} ${msg.status} ${
+            msg.id === highlightedMessageId ? 'highlighted' : ''
+          }`}
+        >
+          <div className="message-role">
+            {ROLE_LABELS[msg.role]}
+            {msg.status === 'cancelled' && <span className="message-status">Cancelled</span>}
+            {msg.status === 'failed' && <span className="message-status">Failed</span>}
+            {msg.model && (
+              <span className="message-model" title={msg.provider ?? undefined}>
+                {msg.model}
+              </span>
+            )}
+          </div>
+
+          {editingId === msg.id ? (
+            <form className="message-edit" onSubmit={submitEdit}>
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={3}
+                aria-label="Edit message"
+                autoFocus
+              />
+              <div className="message-edit-actions">
+                <button type="button" onClick={() => setEditingId(null)}>
+                  Cancel
+                </button>
+                <button type="submit" className="btn-save" disabled={!draft.trim() || busy}>
+                  Save &amp; submit
+                </button>
+              </div>
+            </form>
+          ) : (
+            <>
+              <ToolSteps steps={msg.toolCalls} />
+              <div className="message-content">
+                {msg.role === 'assistant' || markdownUserIds.has(msg.id) ? (
+                  <Markdown content={msg.content} />
+                ) : (
+                  msg.content
+                )}
+              </div>
+            </>
+          )}
+
+          {msg.attachments.length > 0 && (
+            <AttachmentChips attachments={msg.attachments} conversationId={conversationId} />
+          )}
+
+          {msg.status === 'failed' && (
+            <div className="message-failure" role="alert">
+              <span>No reply: {msg.failureReason ?? 'generation failed'}</span>
+              {onRetry && (
+                <button
+                  className="btn-message-action"
+                  onClick={() => onRetry(msg.id)}
+                  disabled={busy}
+                  aria-label="Retry reply"
+                >
+                  Retry
+                </button>
+              )}
+            </div>
+          )}
+
+          {msg.citations.length > 0 && (
+            <ol className="message-citations" aria-label="Sources">
+              {msg.citations.map((citation) => (
+                <li key={citation.chunkId} value={citation.index}>
+                  <a
+                    href={api.knowledgeChunkUrl(citation.documentId, citation.chunkId)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    title={citation.excerpt}
+                  >
+                    {citation.title}, part {citation.ordinal + 1}
+                  </a>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          <div className="message-actions">
+            {msg.siblingIds.length > 1 && (
+              <BranchNavigator
+                message={msg}
+                disabled={busy}
+                onSelect={(id) => onSelectBranch?.(id)}
+              />
+            )}
+            {msg.role === 'user' && editingId !== msg.id && (
+              <button
+                className="btn-message-action"
+                onClick={() => toggleMarkdown(msg.id)}
+                aria-pressed={markdownUserIds.has(msg.id)}
+              >
+                {markdownUserIds.has(msg.id) ? 'Plain text' : 'Markdown'}
+              </button>
+            )}
+            {msg.role === 'user' && onEdit && editingId !== msg.id && (
+              <button
+                className="btn-message-action"
+                onClick={() => startEditing(msg)}
+                disabled={busy}
+                aria-label="Edit message"
+              >
+                Edit
+              </button>
+            )}
+            {msg === lastMessage && canRegenerate && onRegenerate && (
+              <button
+                className="btn-message-action"
+                onClick={onRegenerate}
+                disabled={busy}
+                aria-label="Regenerate reply"
+              >
+                Regenerate
+              </button>
+            )}
+          </div>
         </div>
       ))}
+      {hasNewer && (
+        <button className="btn-load-page" onClick={onLoadNewer}>
+          Load newer messages
+        </button>
+      )}
+      {streamingReply !== null && (
+        <div className="message assistant streaming" aria-live="polite">
+          <div className="message-role">Assistant</div>
+          <ToolSteps steps={streamingToolSteps} />
+          <div className="message-content">
+            <Markdown content={streamingReply} />
+            <span className="streaming-cursor" aria-hidden="true">▍</span>
+          </div>
+        </div>
+      )}
       <div ref={bottomRef} />
     </div>
   );
 }
+
+function BranchNavigator({
+  message,
+  disabled,
+  onSelect,
+}: {
+  message: Message;
+  disabled: boolean;
+  onSelect: (messageId: string) => void;
+}) {
+  const index = message.siblingIds.indexOf(message.id);
+  const count = message.siblingIds.length;
+
+  return (
+    <div className="branch-nav" aria-label="Message versions">
+      <button
+        onClick={() => onSelect(message.siblingIds[index - 1])}
+        disabled={disabled || index <= 0}
+        aria-label="Previous version"
+      >
+        &lt;
+      </button>
+      <span>
+        {index + 1}/{count}
+      </span>
+      <button
+        onClick={() => onSelect(message.siblingIds[index + 1])}
+        disabled={disabled || index >= count - 1}
+        aria-label="Next version"
+      >
+        &gt;
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import { api } from '../api';
+import { ConversationDetail, ConversationSettings, LlmProvider, ModelInfo } from '../types';
+import './ModelPicker.css';
+
+const PROVIDER_LABELS: Record<LlmProvider, string> = {
+  mock: 'Mock',
+  ollama: 'Ollama',
+  openai: 'OpenAI-compatible',
+};
+
+// <option> values are strings; model names may contain "/" or ":"
+function toValue(provider: string | null, model: string | null): string {
+  return provider ? JSON.stringify([provider, model]) : '';
+}
+
+interface Props {
+  conversation: ConversationDetail;
+  disabled: boolean;
+  onSaved: (settings: ConversationSettings) => void;
+  onError: (error: string) => void;
+}
+
+export function ModelPicker({ conversation, disabled, onSaved, onError }: Props) {
+  const [models, setModels] = useState<ModelInfo[]>([]);
+
+  useEffect(() => {
+    api.listModels().then(setModels).catch(() => setModels([]));
+  }, []);
+
+  // Keep the stored choice selectable even if its provider is unreachable right now
+  const options = [...models];
+  if (
+    conversation.provider &&
+    conversation.model &&
+    !models.some((m) => m.provider === conversation.provider && m.model === conversation.model)
+  ) {
+    options.push({ provider: conversation.provider, model: conversation.model, isDefault: false });
+  }
+  const providers = [...new Set(options.map((m) => m.provider))];
+
+  async function handleChange(value: string) {
+    const [provider, model] = value ? JSON.parse(value) : [null, null];
+    try {
+      onSaved(await api.updateConversation(conversation.id, { provider, model }));
+    } catch (err: any) {
+      onError(err.message || 'Failed to change model');
+    }
+  }
+
+  return (
+    <select
+      className="model-picker"
+      value={toValue(conversation.provider, conversation.model)}
+      onChange={(e) => handleChange(e.target.value)}
+      disabled={disabled}
+      aria-label="Model"
+      title="Model used for replies"
+    >
+      <option value="">Default model</option>
+      {providers.map((provider) => (
+        <optgroup key={provider} label={PROVIDER_LABELS[provider]}>
+          {options
+            .filter((m) => m.provider === provider)
+            .map((m) => (
+              <option key={m.model} value={toValue(m.provider, m.model)}>
+                {m.model}
+                {m.isDefault ? ' (default)' : ''}
+              </option>
+            ))}
+        </optgroup>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,45 @@
+import { SearchMatch, SearchResult } from '../types';
+import './SearchResults.css';
+
+interface Props {
+  results: SearchResult[];
+  onOpenMatch: (conversationId: string, match: SearchMatch) => void;
+}
+
+export function SearchResults({ results, onOpenMatch }: Props) {
+  if (results.length === 0) {
+    return <div className="empty-conversations">No matching messages</div>;
+  }
+
+  return (
+    <div className="search-results" aria-label="Search results">
+      {results.map((result) => (
+        <div key={result.conversationId} className="search-result">
+          <div className="search-result-title">{result.title}</div>
+          {result.matches.map((match) => (
+            <button
+              key={match.messageId}
+              className="search-match"
+              onClick={() => onOpenMatch(result.conversationId, match)}
+              title={match.onActiveBranch ? undefined : 'On another version of this conversation'}
+            >
+              <span className="search-match-role">{match.role === 'user' ? 'You' : 'Assistant'}</span>
+              <Snippet text={match.snippet} />
+            </button>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** Renders `<mark>`-delimited highlights without interpreting the text as HTML. */
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(/<mark>|<\/mark>/);
+
+  return (
+    <span className="search-match-snippet">
+      {parts.map((part, i) => (i % 2 === 1 ? <mark key={i}>{part}</mark> : part))}
+    </span>
+  );
+}
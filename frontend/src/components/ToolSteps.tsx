@@ -0,0 +1,34 @@
+import { ToolStep } from '../types';
+import './ToolSteps.css';
+
+interface Props {
+  steps: ToolStep[];
+}
+
+/** The tools the model called for a reply, each collapsed to one line until opened. */
+export function ToolSteps({ steps }: Props) {
+  if (steps.length === 0) return null;
+
+  return (
+    <div className="tool-steps" aria-label="Tool calls">
+      {steps.map((step) => (
+        <details key={step.id} className={`tool-step ${step.isError ? 'error' : ''}`}>
+          <summary>
+            <span aria-hidden="true">{step.isError ? '⚠' : '🔧'}</span>
+            <code>
+              {step.name}({formatArguments(step.arguments)})
+            </code>
+            <span className="tool-step-duration">{step.durationMs} ms</span>
+          </summary>
+          <pre className="tool-step-result">{step.result}</pre>
+        </details>
+      ))}
+    </div>
+  );
+}
+
+function formatArguments(args: Record<string, unknown>): string {
+  return Object.entries(args)
+    .map(([name, value]) => `${name}: ${JSON.stringify(value)}`)
+    .join(', ');
+}
@@ -1,3 +1,8 @@
+export interface User {
+  id: string;
+  email: string;
+}
+
 export interface Conversation {
   id: string;
   title: string;
@@ -7,14 +12,89 @@ export interface Conversation {
 
 export interface Message {
   id: string;
-  role: 'user' | 'assistant';
+  parentId: string | null;
+  /** All versions of this turn, oldest first; more than one means the turn has branches. */
+  siblingIds: string[];
+  role: 'system' | 'user' | 'assistant';
   content: string;
+  /** For user messages, whether the reply is still coming or why there is none. */
+  status: 'pending' | 'complete' | 'failed' | 'cancelled';
+  /** Why no reply was stored for a failed message. */
+  failureReason: string | null;
+  usage: { promptTokens: number | null; completionTokens: number | null } | null;
+  /** Provider and model that produced an assistant message. */
+  provider: string | null;
+  model: string | null;
+  /** Text files sent with a user message. */
+  attachments: Attachment[];
+  /** Knowledge-base excerpts an assistant reply was given; `[n]` in the reply cites `index` n. */
+  citations: Citation[];
+  /** Tools the model called before giving an assistant reply, in call order. */
+  toolCalls: ToolStep[];
+  createdAt: string;
+}
+
+export interface ToolStep {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  /** What the model was given back; an error message when `isError`. */
+  result: string;
+  isError: boolean;
+  durationMs: number;
+}
+
+export interface Citation {
+  index: number;
+  documentId: string;
+  chunkId: string;
+  title: string;
+  /** Position of the chunk in its document, from 0. */
+  ordinal: number;
+  excerpt: string;
+  /** Cosine similarity to the question. */
+  score: number;
+}
+
+export interface KnowledgeDocument {
+  id: string;
+  title: string;
+  filename: string;
+  size: number;
+  chunkCount: number;
   createdAt: string;
 }
 
-export interface ConversationDetail {
+export interface Attachment {
+  id: string;
+  filename: string;
+  mimeType: string;
+  /** Bytes. */
+  size: number;
+}
+
+export type LlmProvider = 'mock' | 'ollama' | 'openai';
+
+/** Model and sampling parameters for replies; null means the server default. */
+export interface GenerationSettings {
+  provider: LlmProvider | null;
+  model: string | null;
+  temperature: number | null;
+  topP: number | null;
+  maxTokens: number | null;
+}
+
+export interface ModelInfo {
+  provider: LlmProvider;
+  model: string;
+  /** The model this provider uses when none is picked. */
+  isDefault: boolean;
+}
+
+export interface ConversationDetail extends GenerationSettings {
   id: string;
   title: string;
+  systemPrompt: string | null;
   messages: Message[];
   pageInfo: {
     nextCursor: string | null;
@@ -22,7 +102,111 @@ export interface ConversationDetail {
   };
 }
 
+export type ExportFormat = 'md' | 'json' | 'jsonl';
+
+/** Machine-readable `code` of backend error responses. */
+export type ErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'UNPROCESSABLE'
+  | 'RATE_LIMITED'
+  | 'UPSTREAM_ERROR'
+  | 'UPSTREAM_TIMEOUT'
+  | 'INTERNAL_ERROR';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/** A reply generated in the background; it keeps running if the page is closed. */
+export interface GenerationJob {
+  id: string;
+  conversationId: string;
+  /** The user message being answered. */
+  userMessageId: string;
+  status: JobStatus;
+  attempts: number;
+  /** The stored reply, once completed. */
+  replyId: string | null;
+  error: { error: string; code: ErrorCode; retryAfterMs?: number } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** The reply so far of a running job, sent when following it starts. */
+export interface JobProgress {
+  content: string;
+  toolCalls: ToolStep[];
+}
+
+export interface EnqueuedMessage {
+  job: GenerationJob;
+  message: Message;
+}
+
+/**
+ * A change to the user's conversations, pushed over the sync socket. Made in
+ * another tab or device, by a background job, or by this tab itself.
+ */
+export type SyncEvent = { seq: number; conversationId: string; createdAt: string } & (
+  | { type: 'conversation.created'; data: { conversation: Conversation } }
+  | {
+      type: 'conversation.updated';
+      data: {
+        // `activeLeafId` is set when another tab switched the shown branch
+        conversation: { id: string; title: string; activeLeafId?: string } &
+          Partial<ConversationSettings>;
+      };
+    }
+  | { type: 'conversation.deleted'; data: { id: string } }
+  | { type: 'message.created'; data: { message: Message } }
+  | {
+      type: 'message.status';
+      data: { messageId: string; status: Message['status']; failureReason: string | null };
+    }
+);
+
 export interface SendMessageResponse {
   message: Message;
   reply: Message;
+  /** Current title; set from the first exchange of a new conversation. */
+  title: string;
+}
+
+export interface RegenerateResponse {
+  reply: Message;
+  title: string;
+}
+
+export interface ConversationSettings extends GenerationSettings {
+  id: string;
+  title: string;
+  systemPrompt: string | null;
+}
+
+export interface Preset {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  /** Available to every user; can't be changed or deleted. */
+  shared: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SearchMatch {
+  messageId: string;
+  role: Message['role'];
+  /** Excerpt with matched terms wrapped in `<mark>` tags; render as text, never as HTML. */
+  snippet: string;
+  createdAt: string;
+  /** False when the message is on a branch that is not currently shown. */
+  onActiveBranch: boolean;
+}
+
+export interface SearchResult {
+  conversationId: string;
+  title: string;
+  matches: SearchMatch[];
 }
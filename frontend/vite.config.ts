@@ -10,6 +10,8 @@ export default defineConfig({
       '/api': {
         target: process.env.VITE_API_URL || 'http://backend:3001',
         changeOrigin: true,
+        // The sync socket, /api/sync
+        ws: true,
       },
       '/healthz': {
         target: process.env.VITE_API_URL || 'http://backend:3001',
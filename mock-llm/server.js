@@ -20,5 +20,185 @@ app.post("/complete", async (req, res) => {
   return res.json({ completion: reply });
 });
 
+// Same reply as /complete, sent word by word as newline-delimited JSON
+app.post("/complete/stream", async (req, res) => {
+  if (Math.random() < 0.10) return; // hang forever
+  if (Math.random() < 0.20) return res.status(500).json({ error: "mock-llm error" });
+
+  const content = (req.body && req.body.content) || "";
+  console.log("Mock LLM (stream) got:", content);
+
+  let closed = false;
+  res.on("close", () => { closed = true; });
+
+  const words = "This is a mock response from a pretend LLM.".split(" ");
+  res.setHeader("Content-Type", "application/x-ndjson");
+
+  for (let i = 0; i < words.length && !closed; i++) {
+    await new Promise(r => setTimeout(r, 100 + randomInt(300)));
+    const token = i === 0 ? words[i] : " " + words[i];
+    res.write(JSON.stringify({ token }) + "\n");
+  }
+
+  if (!closed) res.end(JSON.stringify({ done: true }) + "\n");
+});
+
+// Hashed bag-of-words vectors: texts sharing words get similar vectors, which
+// is enough to exercise retrieval without a real embedding model
+const EMBED_DIMENSIONS = 256;
+
+function embed(text) {
+  const vector = new Array(EMBED_DIMENSIONS).fill(0);
+  for (const word of String(text).toLowerCase().match(/[a-z0-9]+/g) || []) {
+    let hash = 0;
+    for (let i = 0; i < word.length; i++) hash = (hash * 31 + word.charCodeAt(i)) >>> 0;
+    vector[hash % EMBED_DIMENSIONS] += 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map(v => v / norm);
+}
+
+// Embeddings for the `mock` provider; deterministic, no injected failures
+app.post("/embed", (req, res) => {
+  const texts = (req.body && req.body.texts) || [];
+  if (!Array.isArray(texts)) return res.status(400).json({ error: "texts must be an array" });
+  res.json({ embeddings: texts.map(embed) });
+});
+
+// OpenAI-compatible embeddings for the `openai` provider
+app.post("/v1/embeddings", (req, res) => {
+  const { model = "mock-embed", input } = req.body || {};
+  const texts = Array.isArray(input) ? input : [input];
+  if (texts.some(t => typeof t !== "string")) {
+    return res.status(400).json({ error: { message: "input must be a string or an array of strings", type: "invalid_request_error" } });
+  }
+  res.json({
+    object: "list",
+    model,
+    data: texts.map((text, index) => ({ object: "embedding", index, embedding: embed(text) })),
+    usage: { prompt_tokens: texts.join(" ").split(/\s+/).length, total_tokens: texts.join(" ").split(/\s+/).length },
+  });
+});
+
+// Model list for the `openai` provider; any model name is accepted by completions
+app.get("/v1/models", (req, res) => {
+  res.json({
+    object: "list",
+    data: ["mock-gpt", "mock-gpt-mini"].map(id => ({ id, object: "model", created: 0, owned_by: "mock-llm" })),
+  });
+});
+
+// Tool call the mock model makes for the last user message, if it was offered
+// a matching tool: arithmetic goes to `calculator`, questions about the time or
+// date to `current_time`
+function pickToolCall(messages, tools) {
+  const names = (tools || []).map(t => t.function && t.function.name);
+  const last = messages[messages.length - 1];
+  if (!last || last.role !== "user") return null;
+
+  const expression = String(last.content).match(/[-(\d][\d\s.+\-*\/^%()]*[\d)]/g);
+  const arithmetic = (expression || []).find(e => /\d\s*[-+*\/^%]\s*[\d(]/.test(e));
+  if (arithmetic && names.includes("calculator")) {
+    return { name: "calculator", arguments: { expression: arithmetic.trim() } };
+  }
+  if (/\b(time|date|today)\b/i.test(last.content) && names.includes("current_time")) {
+    return { name: "current_time", arguments: {} };
+  }
+  return null;
+}
+
+// Fake OpenAI-compatible chat completions endpoint for the `openai` provider.
+// Deterministic (no injected failures) so the adapter can be exercised offline.
+app.post("/v1/chat/completions", async (req, res) => {
+  const apiKey = process.env.MOCK_OPENAI_API_KEY;
+  if (apiKey && req.headers.authorization !== `Bearer ${apiKey}`) {
+    return res.status(401).json({ error: { message: "Invalid API key", type: "invalid_request_error" } });
+  }
+
+  const { model = "mock-gpt", messages, stream, tools } = req.body || {};
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return res.status(400).json({ error: { message: "messages is required", type: "invalid_request_error" } });
+  }
+  console.log("Mock OpenAI got:", JSON.stringify(messages));
+
+  const lastUser = [...messages].reverse().find(m => m.role === "user");
+  const toolResults = [];
+  for (let i = messages.length - 1; i >= 0 && messages[i].role === "tool"; i--) toolResults.unshift(messages[i].content);
+  const reply = toolResults.length > 0
+    ? `This is a mock chat completion using tool results: ${toolResults.join("; ")}.`
+    : `This is a mock chat completion (${messages.length} messages, last: "${lastUser ? lastUser.content : ""}").`;
+  const id = `chatcmpl-${Date.now()}`;
+  const created = Math.floor(Date.now() / 1000);
+
+  const toolCall = pickToolCall(messages, tools);
+  if (toolCall) {
+    const call = { id: `call_${Date.now()}`, type: "function", function: { name: toolCall.name, arguments: JSON.stringify(toolCall.arguments) } };
+    if (!stream) {
+      return res.json({
+        id,
+        object: "chat.completion",
+        created,
+        model,
+        choices: [{ index: 0, message: { role: "assistant", content: null, tool_calls: [call] }, finish_reason: "tool_calls" }],
+        usage: { prompt_tokens: messages.length, completion_tokens: 1 },
+      });
+    }
+
+    // Arguments arrive in fragments, as real providers send them
+    const half = Math.ceil(call.function.arguments.length / 2);
+    const deltas = [
+      { role: "assistant", content: null, tool_calls: [{ index: 0, id: call.id, type: "function", function: { name: call.function.name, arguments: call.function.arguments.slice(0, half) } }] },
+      { tool_calls: [{ index: 0, function: { arguments: call.function.arguments.slice(half) } }] },
+    ];
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache");
+    for (const delta of deltas) {
+      res.write(`data: ${JSON.stringify({ id, object: "chat.completion.chunk", created, model, choices: [{ index: 0, delta, finish_reason: null }] })}\n\n`);
+    }
+    res.write(`data: ${JSON.stringify({ id, object: "chat.completion.chunk", created, model, choices: [{ index: 0, delta: {}, finish_reason: "tool_calls" }] })}\n\n`);
+    return res.end("data: [DONE]\n\n");
+  }
+
+  if (!stream) {
+    await new Promise(r => setTimeout(r, 200 + randomInt(500)));
+    return res.json({
+      id,
+      object: "chat.completion",
+      created,
+      model,
+      choices: [{ index: 0, message: { role: "assistant", content: reply }, finish_reason: "stop" }],
+      usage: {
+        prompt_tokens: messages.reduce((n, m) => n + String(m.content || "").split(/\s+/).length, 0),
+        completion_tokens: reply.split(/\s+/).length,
+      },
+    });
+  }
+
+  let closed = false;
+  res.on("close", () => { closed = true; });
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+
+  const words = reply.split(" ");
+  for (let i = 0; i < words.length && !closed; i++) {
+    await new Promise(r => setTimeout(r, 50 + randomInt(150)));
+    const content = i === 0 ? words[i] : " " + words[i];
+    const chunk = {
+      id,
+      object: "chat.completion.chunk",
+      created,
+      model,
+      choices: [{ index: 0, delta: i === 0 ? { role: "assistant", content } : { content }, finish_reason: null }],
+    };
+    res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+  }
+
+  if (!closed) {
+    const last = { id, object: "chat.completion.chunk", created, model, choices: [{ index: 0, delta: {}, finish_reason: "stop" }] };
+    res.write(`data: ${JSON.stringify(last)}\n\n`);
+    res.end("data: [DONE]\n\n");
+  }
+});
+
 const port = process.env.PORT || 8080;
 app.listen(port, () => console.log("mock-llm listening on", port));